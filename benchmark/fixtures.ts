@@ -0,0 +1,102 @@
+// Deterministic fixture deck and page for the matcher benchmark. Everything
+// is generated from a seed so runs are comparable across machines.
+
+const KANA =
+  "あいうえおかきくけこさしすせそたちつてとなにぬねのはひふへほまみむめもやゆよらりるれろわをん";
+const KANJI =
+  "日本語学生先時間年月人大小中山川田上下右左出入見行来食飲読書話聞言思知気電車会社国外手足目口耳心体道店";
+
+// mulberry32
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick(random: () => number, chars: string): string {
+  return chars[Math.floor(random() * chars.length)];
+}
+
+export interface FixtureCard {
+  term: string;
+  interval: number;
+  lapses: number;
+  reps: number;
+}
+
+// A deck of unique words, one to four characters of kanji followed by kana
+export function generateDeck(size: number, seed = 1): FixtureCard[] {
+  const random = createRandom(seed);
+  const terms = new Set<string>();
+  while (terms.size < size) {
+    const kanjiCount = 1 + Math.floor(random() * 2);
+    const kanaCount = Math.floor(random() * 3);
+    let term = "";
+    for (let i = 0; i < kanjiCount; i++) term += pick(random, KANJI);
+    for (let i = 0; i < kanaCount; i++) term += pick(random, KANA);
+    terms.add(term);
+  }
+  return Array.from(terms, (term) => ({
+    term,
+    interval: Math.floor(random() * 400),
+    lapses: Math.floor(random() * 5),
+    reps: Math.floor(random() * 20),
+  }));
+}
+
+// Paragraphs mixing deck words with filler text
+export function generateParagraphs(
+  deck: FixtureCard[],
+  count: number,
+  length = 120,
+  seed = 2,
+): string[] {
+  const random = createRandom(seed);
+  const paragraphs: string[] = [];
+  for (let p = 0; p < count; p++) {
+    let text = "";
+    while (text.length < length) {
+      text +=
+        random() < 0.5
+          ? deck[Math.floor(random() * deck.length)].term
+          : pick(random, KANA) + pick(random, KANA);
+      if (random() < 0.1) text += "。";
+    }
+    paragraphs.push(text);
+  }
+  return paragraphs;
+}
+
+// Tab separated deck, importable into Anki with the term in the first field
+export function renderDeckTsv(deck: FixtureCard[]): string {
+  return (
+    "term\tinterval\tlapses\treps\n" +
+    deck
+      .map(
+        ({ term, interval, lapses, reps }) =>
+          `${term}\t${interval}\t${lapses}\t${reps}`,
+      )
+      .join("\n") +
+    "\n"
+  );
+}
+
+// Static page with one text node per paragraph, for measuring in the browser
+export function renderFixturePage(paragraphs: string[]): string {
+  return `<!doctype html>
+<html lang="ja">
+  <head>
+    <meta charset="UTF-8" />
+    <title>Anki Levels benchmark</title>
+  </head>
+  <body>
+${paragraphs.map((text) => `    <p>${text}</p>`).join("\n")}
+  </body>
+</html>
+`;
+}
@@ -0,0 +1,83 @@
+// Compares the per-word indexOf scan against the automaton matcher.
+//
+//   npx vite-node benchmark/matcher.bench.ts [deckSize] [paragraphs] [--write]
+//
+// --write also saves the fixture deck and page to benchmark/out/ so the same
+// data can be loaded into Anki and opened in the browser.
+import { mkdirSync, writeFileSync } from "node:fs";
+import { performance } from "node:perf_hooks";
+import { buildMatcher, Matcher } from "../utils/matcher";
+import {
+  generateDeck,
+  generateParagraphs,
+  renderDeckTsv,
+  renderFixturePage,
+} from "./fixtures";
+
+const args = process.argv.slice(2).filter((arg) => !arg.startsWith("--"));
+const deckSize = Number(args[0] ?? 20000);
+const paragraphCount = Number(args[1] ?? 2000);
+
+const deck = generateDeck(deckSize);
+const paragraphs = generateParagraphs(deck, paragraphCount);
+const totalChars = paragraphs.reduce((sum, text) => sum + text.length, 0);
+
+if (process.argv.includes("--write")) {
+  const outDir = new URL("./out/", import.meta.url);
+  mkdirSync(outDir, { recursive: true });
+  writeFileSync(new URL("deck.tsv", outDir), renderDeckTsv(deck));
+  writeFileSync(new URL("fixture.html", outDir), renderFixturePage(paragraphs));
+  console.log(`Wrote fixtures to ${outDir.pathname}`);
+}
+
+function measure(label: string, run: () => number) {
+  const start = performance.now();
+  const matchCount = run();
+  const elapsed = performance.now() - start;
+  const throughput = (totalChars / 1000 / (elapsed / 1000)).toFixed(0);
+  console.log(
+    `${label.padEnd(12)} ${elapsed.toFixed(1).padStart(9)} ms  ` +
+      `${throughput.padStart(8)} kchars/s  ${matchCount} matches`,
+  );
+}
+
+console.log(
+  `${deck.length} words, ${paragraphs.length} text nodes, ${totalChars} chars\n`,
+);
+
+// The scan content scripts used before the automaton
+measure("indexOf", () => {
+  const sortedWords = deck
+    .map(({ term }) => term)
+    .sort((a, b) => b.length - a.length);
+  let matchCount = 0;
+  for (const text of paragraphs) {
+    for (const word of sortedWords) {
+      if (!text.includes(word)) continue;
+      let index = text.indexOf(word);
+      while (index !== -1) {
+        matchCount++;
+        index = text.indexOf(word, index + 1);
+      }
+    }
+  }
+  return matchCount;
+});
+
+const buildStart = performance.now();
+const serialized = buildMatcher(deck.map(({ term }) => term));
+const buildTime = performance.now() - buildStart;
+const serializedSize = JSON.stringify(serialized).length;
+console.log(
+  `\nautomaton build ${buildTime.toFixed(1)} ms, ` +
+    `${(serializedSize / 1024).toFixed(0)} KiB serialized\n`,
+);
+
+measure("automaton", () => {
+  const matcher = new Matcher(serialized);
+  let matchCount = 0;
+  for (const text of paragraphs) {
+    matchCount += matcher.findAll(text).length;
+  }
+  return matchCount;
+});
@@ -0,0 +1,89 @@
+// Dims the page text around the words left highlighted, so the hardest
+// words of a page stand out. Needs the CSS Custom Highlight API, without it
+// the page text stays as it is.
+
+const DIM_HIGHLIGHT = "anki-levels-dim";
+
+// Offsets in a text node covered by a range
+function coveredSpan(range: Range, node: Text): [number, number] {
+  return [
+    range.startContainer === node ? range.startOffset : 0,
+    range.endContainer === node ? range.endOffset : node.length,
+  ];
+}
+
+// Text nodes a range touches, one for ranges within a text node and the
+// text of a highlight span otherwise
+function textsIn(range: Range): Text[] {
+  const root = range.commonAncestorContainer;
+  if (root instanceof Text) return [root];
+  const texts: Text[] = [];
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  let node;
+  while ((node = walker.nextNode())) {
+    if (range.intersectsNode(node)) texts.push(node as Text);
+  }
+  return texts;
+}
+
+export class FocusMode {
+  readonly supported = typeof CSS !== "undefined" && "highlights" in CSS;
+  private sheet: CSSStyleSheet | null = null;
+  private highlight: Highlight | null = null;
+
+  constructor() {
+    if (!this.supported) return;
+    this.highlight = new Highlight();
+    this.sheet = new CSSStyleSheet();
+    this.sheet.insertRule(
+      `::highlight(${DIM_HIGHLIGHT}) { color: rgba(128, 128, 128, 0.4); }`,
+    );
+    this.adoptSheet(document);
+  }
+
+  private adoptSheet(root: Document | ShadowRoot) {
+    if (this.sheet && !root.adoptedStyleSheets.includes(this.sheet)) {
+      root.adoptedStyleSheets = [...root.adoptedStyleSheets, this.sheet];
+    }
+  }
+
+  // A shadow root whose text gets dimmed too
+  addRoot(root: ShadowRoot) {
+    this.adoptSheet(root);
+  }
+
+  // Dim the given text nodes except where the kept ranges cover them
+  apply(textNodes: Text[], kept: Range[]) {
+    if (!this.highlight) return;
+    this.highlight.clear();
+
+    const keptSpans = new Map<Node, [number, number][]>();
+    kept.forEach((range) => {
+      textsIn(range).forEach((node) => {
+        const spans = keptSpans.get(node) ?? [];
+        spans.push(coveredSpan(range, node));
+        keptSpans.set(node, spans);
+      });
+    });
+
+    textNodes.forEach((node) => {
+      const spans = (keptSpans.get(node) ?? []).sort((a, b) => a[0] - b[0]);
+      let offset = 0;
+      [...spans, [node.length, node.length]].forEach(([start, end]) => {
+        if (start > offset && node.data.slice(offset, start).trim()) {
+          const range = new Range();
+          range.setStart(node, offset);
+          range.setEnd(node, start);
+          this.highlight!.add(range);
+        }
+        offset = Math.max(offset, end);
+      });
+    });
+    CSS.highlights.set(DIM_HIGHLIGHT, this.highlight);
+  }
+
+  clear() {
+    this.highlight?.clear();
+    if (this.supported) CSS.highlights.delete(DIM_HIGHLIGHT);
+  }
+}
@@ -0,0 +1,531 @@
+import { isCardDue } from "@/utils/scoring";
+import type { HighlighterType } from "@/utils/settings";
+import type { Styler } from "@/utils/styles";
+import type { WordMatch } from "@/utils/words";
+
+// Overlapping matches in a text node, drawn as one highlight over the first,
+// longest one
+export interface HighlightGroup extends WordMatch {
+  overlapping: WordMatch[];
+}
+
+// The highlight under the pointer
+export interface HighlightHit {
+  // Same object while the pointer stays on the same highlight
+  key: object;
+  matches: WordMatch[];
+  rect: DOMRect;
+}
+
+// Highlighted text with its matches
+export interface HighlightEntry {
+  text: string;
+  matches: WordMatch[];
+  // Where the text is on the page
+  range: Range;
+  // Not drawn, the styler hides all its matches
+  hidden?: boolean;
+}
+
+// Draws the matches found in text nodes. Both backends can be hit-tested so
+// the hover card works the same with either
+export interface Highlighter {
+  readonly type: HighlighterType;
+  // Whether a text node is already highlighted as it is now
+  isHighlighted(node: Text): boolean;
+  highlight(textNode: Text, groups: HighlightGroup[]): void;
+  hitTest(event: MouseEvent): HighlightHit | null;
+  // For page statistics and exposures
+  entries(): HighlightEntry[];
+  // A shadow root whose text gets highlighted too
+  addRoot(root: ShadowRoot): void;
+  // Remove all highlights
+  clear(): void;
+}
+
+// Wraps each match in a span with stacked underlines for overlapping words.
+// Works everywhere, but changes the page's DOM
+class SpanHighlighter implements Highlighter {
+  readonly type = "spans";
+  private spanMatches = new WeakMap<HTMLElement, WordMatch[]>();
+  // Text nodes split up by highlights, to put back on clear
+  private replacedNodes: { original: Text; parts: Node[] }[] = [];
+  // Matches the styler hides stay plain text, split off so they count in
+  // the page statistics and are not matched again
+  private hiddenParts: { part: Text; matches: WordMatch[] }[] = [];
+  private hiddenNodes = new WeakSet<Text>();
+
+  constructor(
+    private styler: Styler,
+    private roots: () => Node[],
+  ) {}
+
+  isHighlighted(node: Text): boolean {
+    return (
+      this.hiddenNodes.has(node) ||
+      !!node.parentElement?.classList.contains("anki-highlight")
+    );
+  }
+
+  highlight(textNode: Text, groups: HighlightGroup[]) {
+    if (!textNode.parentNode) return;
+    const text = textNode.textContent || "";
+
+    // Build replacement fragment
+    const fragment = document.createDocumentFragment();
+    let lastIndex = 0;
+    const now = Date.now();
+
+    for (const group of groups) {
+      // Add text before match
+      if (group.index > lastIndex) {
+        fragment.appendChild(
+          document.createTextNode(text.substring(lastIndex, group.index)),
+        );
+      }
+
+      const styles = group.overlapping.map((match) =>
+        this.styler(
+          match.data.difficultyLevel,
+          isCardDue(match.data.stats, now),
+        ),
+      );
+      if (styles.every((style) => !style)) {
+        const part = document.createTextNode(group.word);
+        this.hiddenParts.push({ part, matches: group.overlapping });
+        this.hiddenNodes.add(part);
+        fragment.appendChild(part);
+        lastIndex = group.index + group.length;
+        continue;
+      }
+
+      // Add highlighted span
+      const span = document.createElement("span");
+      span.className = "anki-highlight";
+      span.style.setProperty("position", "relative", "important");
+      span.style.setProperty("display", "inline", "important");
+      // span.style.setProperty("cursor", "pointer", "important");
+      span.style.setProperty(
+        "transition",
+        "background-color 0.2s",
+        "important",
+      );
+      span.style.setProperty("margin", "0", "important");
+      span.style.setProperty("padding", "0", "important");
+      span.style.setProperty("margin-right", "1px", "important"); // Small gap between adjacent highlights
+      // Prevent font size inheritance issues
+      span.style.setProperty("font-size", "inherit", "important");
+      span.style.setProperty("font-family", "inherit", "important");
+      span.style.setProperty("font-weight", "inherit", "important");
+      span.style.setProperty("line-height", "inherit", "important");
+
+      // Use the primary match color for background
+      const primaryStyle = styles[0];
+      if (primaryStyle?.background) {
+        span.style.setProperty(
+          "background-color",
+          primaryStyle.background,
+          "important",
+        );
+      }
+
+      // Mark due cards above the text, apart from the level underlines
+      const dueMarker = styles.find((style) => style?.dueMarker)?.dueMarker;
+      if (dueMarker) {
+        span.style.setProperty(
+          "text-decoration",
+          `overline dotted 2px ${dueMarker}`,
+          "important",
+        );
+      }
+
+      // Add text content
+      span.textContent = group.word;
+
+      // Assign vertical levels to overlapping matches
+      // Non-overlapping matches should get the same level
+      const levels: number[] = [];
+      group.overlapping.forEach((m, idx) => {
+        let level = 0;
+        // Find the lowest level where this match doesn't overlap with any existing match at that level
+        while (true) {
+          let hasOverlap = false;
+          for (let i = 0; i < idx; i++) {
+            if (levels[i] === level) {
+              const other = group.overlapping[i];
+              // Check if they overlap
+              const mEnd = m.index + m.word.length;
+              const otherEnd = other.index + other.word.length;
+              if (!(mEnd <= other.index || m.index >= otherEnd)) {
+                hasOverlap = true;
+                break;
+              }
+            }
+          }
+          if (!hasOverlap) {
+            levels[idx] = level;
+            break;
+          }
+          level++;
+        }
+      });
+
+      // Create stacked underlines as child elements, each matching their word's length
+      group.overlapping.forEach((m, idx) => {
+        const style = styles[idx];
+        if (!style?.underline) return;
+        const level = levels[idx];
+        const offset = `calc(-1 * (1px + ${level * (style.underlineThickness + 0.5)}px))`; // Stack with a small gap per level
+
+        // Calculate position and width based on where this match starts within the main match
+        const relativeStart = m.index - group.index;
+        const matchLength = m.word.length;
+        const totalLength = group.word.length;
+
+        // Calculate percentage positions with a small gap
+        const leftPercent = (relativeStart / totalLength) * 100;
+        const widthPercent = (matchLength / totalLength) * 100;
+
+        // Add small gap (2% of total width) between adjacent underlines
+        const gapPercent = 2;
+
+        const underline = document.createElement("span");
+        underline.style.setProperty("display", "block", "important");
+        underline.style.setProperty("position", "absolute", "important");
+        underline.style.setProperty("left", `${leftPercent}%`, "important");
+        underline.style.setProperty(
+          "width",
+          `calc(${widthPercent}% - ${gapPercent}%)`,
+          "important",
+        );
+        underline.style.setProperty("bottom", `${offset}`, "important");
+        underline.style.setProperty(
+          "height",
+          `${style.underlineThickness}px`,
+          "important",
+        );
+        underline.style.setProperty(
+          "background-color",
+          style.underline,
+          "important",
+        );
+        underline.style.setProperty("pointer-events", "none", "important");
+        underline.style.setProperty("margin", "0", "important");
+        underline.style.setProperty("padding", "0", "important");
+
+        span.appendChild(underline);
+      });
+
+      // Remember all overlapping matches for the hover card
+      this.spanMatches.set(span, group.overlapping);
+      fragment.appendChild(span);
+      lastIndex = group.index + group.length;
+    }
+
+    // Add remaining text
+    if (lastIndex < text.length) {
+      fragment.appendChild(document.createTextNode(text.substring(lastIndex)));
+    }
+
+    this.replacedNodes.push({
+      original: textNode,
+      parts: Array.from(fragment.childNodes),
+    });
+    textNode.parentNode.replaceChild(fragment, textNode);
+  }
+
+  hitTest(event: MouseEvent): HighlightHit | null {
+    // Events from shadow trees are retargeted to the host, the span is the
+    // first node on the composed path
+    const target = event.composedPath()[0] as Element;
+    const span = target.closest?.<HTMLElement>(".anki-highlight");
+    const matches = span && this.spanMatches.get(span);
+    if (!span || !matches) return null;
+    return { key: span, matches, rect: span.getBoundingClientRect() };
+  }
+
+  entries() {
+    const entries = this.spans().flatMap((span): HighlightEntry[] => {
+      const matches = this.spanMatches.get(span);
+      if (!matches) return [];
+      const range = new Range();
+      range.selectNodeContents(span);
+      return [{ text: span.textContent ?? "", matches, range }];
+    });
+    this.hiddenParts = this.hiddenParts.filter(({ part }) => part.isConnected);
+    this.hiddenParts.forEach(({ part, matches }) => {
+      const range = new Range();
+      range.selectNodeContents(part);
+      entries.push({
+        text: part.textContent ?? "",
+        matches,
+        range,
+        hidden: true,
+      });
+    });
+    return entries;
+  }
+
+  addRoot() {
+    // Inline styles reach into shadow roots as they are
+  }
+
+  // Put the original text nodes back, leaving the page as it was before
+  // highlighting
+  clear() {
+    this.replacedNodes.forEach(({ original, parts }) => {
+      const connected = parts.filter((part) => part.isConnected);
+      if (connected.length === 0) return;
+      connected[0].parentNode!.insertBefore(original, connected[0]);
+      connected.forEach((part) => part.parentNode?.removeChild(part));
+    });
+    this.replacedNodes = [];
+    this.hiddenParts = [];
+
+    // Highlights moved around by the page since they were added
+    this.spans().forEach((span) => {
+      const text = Array.from(span.childNodes)
+        .filter((child) => child.nodeType === Node.TEXT_NODE)
+        .map((child) => child.textContent)
+        .join("");
+      span.replaceWith(document.createTextNode(text));
+    });
+  }
+
+  private spans(): HTMLElement[] {
+    return this.roots().flatMap((root) =>
+      Array.from(
+        (root as ParentNode).querySelectorAll<HTMLElement>(".anki-highlight"),
+      ),
+    );
+  }
+}
+
+interface RangeEntry {
+  group: HighlightGroup;
+  range: Range;
+  background: Highlight | null;
+  // One underline per visible overlapping match
+  lines: { range: Range; highlight: Highlight }[];
+  // Overline when one of the matches is a due card
+  marker: Highlight | null;
+}
+
+// Caret position under a point, looking into the given shadow roots
+function caretFromPoint(
+  x: number,
+  y: number,
+  shadowRoots: ShadowRoot[],
+): { node: Node; offset: number } | null {
+  if (document.caretPositionFromPoint) {
+    const position = document.caretPositionFromPoint(x, y, { shadowRoots });
+    return position && { node: position.offsetNode, offset: position.offset };
+  }
+  const range = document.caretRangeFromPoint(x, y);
+  return range && { node: range.startContainer, offset: range.startOffset };
+}
+
+// Each highlighter names its highlights apart, so one made for new settings
+// cannot pick up the rules of the one before
+let nextHighlighterId = 0;
+
+// Paints matches with the CSS Custom Highlight API, one highlight per
+// color and leaves the page's DOM untouched
+class RangeHighlighter implements Highlighter {
+  readonly type = "ranges";
+  private sheet = new CSSStyleSheet();
+  // The document and shadow roots the sheet is adopted into while there
+  // are highlights
+  private styledRoots = new Set<Document | ShadowRoot>([document]);
+  private prefix = `anki-levels-${nextHighlighterId++}`;
+  // Registered highlights by what they paint, e.g. "background-3"
+  private highlights = new Map<
+    string,
+    { name: string; highlight: Highlight }
+  >();
+  // Highlighted text nodes, with the text their ranges were made for
+  private nodes = new Map<Text, { text: string; entries: RangeEntry[] }>();
+
+  constructor(
+    private styler: Styler,
+    private roots: () => Node[],
+  ) {}
+
+  // Styles are registered as they are first used. There is one per color
+  // step of the scale and kind, at most a few dozen
+  private highlightFor(key: string, declaration: string): Highlight {
+    let registered = this.highlights.get(key);
+    if (!registered) {
+      if (this.highlights.size === 0) {
+        this.styledRoots.forEach((root) => this.adoptSheet(root));
+      }
+      registered = {
+        name: `${this.prefix}-${key}`,
+        highlight: new Highlight(),
+      };
+      CSS.highlights.set(registered.name, registered.highlight);
+      this.highlights.set(key, registered);
+      this.sheet.insertRule(
+        `::highlight(${registered.name}) { ${declaration} }`,
+        this.sheet.cssRules.length,
+      );
+    }
+    return registered.highlight;
+  }
+
+  private adoptSheet(root: Document | ShadowRoot) {
+    if (!root.adoptedStyleSheets.includes(this.sheet)) {
+      root.adoptedStyleSheets = [...root.adoptedStyleSheets, this.sheet];
+    }
+  }
+
+  isHighlighted(node: Text): boolean {
+    return this.nodes.get(node)?.text === node.textContent;
+  }
+
+  highlight(textNode: Text, groups: HighlightGroup[]) {
+    this.unhighlight(textNode);
+    const now = Date.now();
+
+    const entries = groups.map((group): RangeEntry => {
+      const range = new Range();
+      range.setStart(textNode, group.index);
+      range.setEnd(textNode, group.index + group.length);
+      const styles = group.overlapping.map((match) =>
+        this.styler(
+          match.data.difficultyLevel,
+          isCardDue(match.data.stats, now),
+        ),
+      );
+      const primaryStyle = styles[0];
+      const background = primaryStyle?.background
+        ? this.highlightFor(
+            `background-${primaryStyle.step}`,
+            `background-color: ${primaryStyle.background};`,
+          )
+        : null;
+      background?.add(range);
+
+      const lines = group.overlapping.flatMap((match, index) => {
+        const style = styles[index];
+        if (!style?.underline) return [];
+        const line = new Range();
+        line.setStart(textNode, match.index);
+        line.setEnd(textNode, match.index + match.length);
+        const highlight = this.highlightFor(
+          `underline-${style.step}`,
+          `text-decoration: underline ${style.underlineThickness}px ${style.underline};`,
+        );
+        highlight.add(line);
+        return [{ range: line, highlight }];
+      });
+
+      const dueMarker = styles.find((style) => style?.dueMarker)?.dueMarker;
+      const marker = dueMarker
+        ? this.highlightFor(
+            "due",
+            `text-decoration: overline dotted 2px ${dueMarker};`,
+          )
+        : null;
+      marker?.add(range);
+      return { group, range, background, lines, marker };
+    });
+    this.nodes.set(textNode, { text: textNode.textContent ?? "", entries });
+  }
+
+  private unhighlight(textNode: Text) {
+    this.nodes
+      .get(textNode)
+      ?.entries.forEach(({ range, background, lines, marker }) => {
+        background?.delete(range);
+        marker?.delete(range);
+        lines.forEach((line) => line.highlight.delete(line.range));
+      });
+    this.nodes.delete(textNode);
+  }
+
+  hitTest(event: MouseEvent): HighlightHit | null {
+    const shadowRoots = this.roots().filter(
+      (root): root is ShadowRoot => root instanceof ShadowRoot,
+    );
+    const caret = caretFromPoint(event.clientX, event.clientY, shadowRoots);
+    const node = caret && this.nodes.get(caret.node as Text);
+    if (!caret || !node) return null;
+
+    // The caret snaps to the nearest character, so check the pointer is
+    // really over the word
+    // Hidden matches are kept for statistics only
+    const entry = node.entries.find(
+      ({ group, range, background, lines, marker }) =>
+        (background || lines.length > 0 || marker) &&
+        caret.offset >= group.index &&
+        caret.offset <= group.index + group.length &&
+        Array.from(range.getClientRects()).some(
+          (rect) =>
+            event.clientX >= rect.left &&
+            event.clientX <= rect.right &&
+            event.clientY >= rect.top &&
+            event.clientY <= rect.bottom,
+        ),
+    );
+    if (!entry) return null;
+    return {
+      key: entry,
+      matches: entry.group.overlapping,
+      rect: entry.range.getBoundingClientRect(),
+    };
+  }
+
+  // Also forgets text nodes the page has removed since
+  entries() {
+    const entries: HighlightEntry[] = [];
+    Array.from(this.nodes.keys()).forEach((textNode) => {
+      if (!textNode.isConnected) {
+        this.unhighlight(textNode);
+        return;
+      }
+      this.nodes
+        .get(textNode)!
+        .entries.forEach(({ group, range, background, lines, marker }) => {
+          entries.push({
+            text: range.toString(),
+            matches: group.overlapping,
+            range,
+            hidden: !background && lines.length === 0 && !marker,
+          });
+        });
+    });
+    return entries;
+  }
+
+  addRoot(root: ShadowRoot) {
+    this.styledRoots.add(root);
+    if (this.highlights.size > 0) this.adoptSheet(root);
+  }
+
+  // Unregister the highlights and take the sheet off the page, they are
+  // made again when highlighting resumes
+  clear() {
+    this.highlights.forEach(({ name }) => CSS.highlights.delete(name));
+    this.highlights.clear();
+    this.sheet.replaceSync("");
+    this.styledRoots.forEach((root) => {
+      root.adoptedStyleSheets = root.adoptedStyleSheets.filter(
+        (sheet) => sheet !== this.sheet,
+      );
+    });
+    this.nodes.clear();
+  }
+}
+
+// The span renderer stands in where the Custom Highlight API is missing
+export function createHighlighter(
+  type: HighlighterType,
+  styler: Styler,
+  roots: () => Node[],
+): Highlighter {
+  if (type === "ranges" && typeof CSS !== "undefined" && "highlights" in CSS) {
+    return new RangeHighlighter(styler, roots);
+  }
+  return new SpanHighlighter(styler, roots);
+}
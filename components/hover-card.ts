@@ -0,0 +1,360 @@
+import { ANSWER_EASES, type AnswerEase } from "@/utils/anki-connect";
+import type { Exposure } from "@/utils/exposure";
+import { isCardDue, overdueDays, type ScoreComponent } from "@/utils/scoring";
+import type { WordMatch } from "@/utils/words";
+
+export type CardAction = "browse" | "suspend" | "relearn";
+
+export interface AnswerResult {
+  answered: boolean;
+  message: string;
+}
+
+export interface HoverCardEntry extends WordMatch {
+  breakdown: ScoreComponent[];
+  // Pages the word was met on before, none for a first encounter
+  exposure?: Exposure;
+}
+
+const STYLES = `
+  :host {
+    all: initial;
+  }
+  .card {
+    position: fixed;
+    z-index: 2147483647;
+    max-width: 320px;
+    min-width: 200px;
+    background: #fff;
+    color: #222;
+    border: 1px solid #ccc;
+    border-radius: 6px;
+    box-shadow: 0 4px 16px rgba(0, 0, 0, 0.2);
+    font: 13px/1.4 system-ui, -apple-system, sans-serif;
+    padding: 10px 12px;
+    display: none;
+  }
+  .entry + .entry {
+    border-top: 1px solid #eee;
+    margin-top: 8px;
+    padding-top: 8px;
+  }
+  .term {
+    font-size: 18px;
+    font-weight: 600;
+  }
+  .reading {
+    color: #666;
+    margin-left: 6px;
+  }
+  .due {
+    font-size: 11px;
+    font-weight: 600;
+    color: #fff;
+    background: #1e88e5;
+    border-radius: 3px;
+    padding: 1px 5px;
+    margin-left: 6px;
+    vertical-align: middle;
+  }
+  .due.overdue {
+    background: #d32f2f;
+  }
+  .surface {
+    color: #666;
+    font-size: 12px;
+  }
+  .meaning {
+    margin: 4px 0;
+  }
+  .stats {
+    display: grid;
+    grid-template-columns: auto 1fr;
+    column-gap: 10px;
+    font-size: 12px;
+    color: #444;
+    margin: 6px 0;
+  }
+  .stats dt {
+    color: #888;
+  }
+  .stats dt.detail {
+    padding-left: 10px;
+  }
+  .stats dd {
+    margin: 0;
+  }
+  .sample {
+    font-size: 12px;
+    color: #444;
+    border-left: 2px solid #ddd;
+    padding-left: 6px;
+    margin: 6px 0;
+  }
+  .sample a {
+    color: #666;
+    margin-left: 4px;
+  }
+  .actions {
+    display: flex;
+    gap: 6px;
+    margin-top: 6px;
+  }
+  button {
+    flex: 1;
+    font: inherit;
+    font-size: 12px;
+    padding: 4px 6px;
+    border: 1px solid #ccc;
+    border-radius: 4px;
+    background: #f5f5f5;
+    color: #222;
+    cursor: pointer;
+  }
+  button:hover {
+    background: #e8e8e8;
+  }
+  button:disabled {
+    opacity: 0.5;
+    cursor: default;
+  }
+  .message {
+    font-size: 11px;
+    color: #666;
+    margin-top: 4px;
+  }
+`;
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString();
+}
+
+// Popover with the Anki note behind a highlighted word, rendered in a shadow
+// root so page styles cannot reach it
+export class HoverCard {
+  private host: HTMLDivElement;
+  private card: HTMLDivElement;
+  private hideTimeout: number | null = null;
+
+  constructor(
+    private onAction: (action: CardAction, cardId: number) => Promise<string>,
+    private onAnswer: (
+      cardId: number,
+      ease: AnswerEase,
+    ) => Promise<AnswerResult>,
+  ) {
+    this.host = document.createElement("div");
+    this.host.id = "anki-levels-hover-card";
+    const shadow = this.host.attachShadow({ mode: "closed" });
+
+    const style = document.createElement("style");
+    style.textContent = STYLES;
+    this.card = document.createElement("div");
+    this.card.className = "card";
+    shadow.append(style, this.card);
+
+    // Keep the card open while the pointer is over it
+    this.card.addEventListener("mouseenter", () => this.cancelHide());
+    this.card.addEventListener("mouseleave", () => this.scheduleHide());
+
+    document.documentElement.appendChild(this.host);
+  }
+
+  contains(node: Node): boolean {
+    return this.host === node || this.host.contains(node);
+  }
+
+  show(anchor: DOMRect, entries: HoverCardEntry[]) {
+    this.cancelHide();
+    this.card.innerHTML = "";
+    entries.forEach((entry) => this.card.appendChild(this.renderEntry(entry)));
+    this.card.style.display = "block";
+
+    // Below the word, or above it when there is no room
+    const cardRect = this.card.getBoundingClientRect();
+    let top = anchor.bottom + 6;
+    if (top + cardRect.height > window.innerHeight) {
+      top = Math.max(6, anchor.top - cardRect.height - 6);
+    }
+    const left = Math.min(
+      Math.max(6, anchor.left),
+      window.innerWidth - cardRect.width - 6,
+    );
+    this.card.style.top = `${top}px`;
+    this.card.style.left = `${left}px`;
+  }
+
+  scheduleHide(delay = 200) {
+    this.cancelHide();
+    this.hideTimeout = setTimeout(() => {
+      this.card.style.display = "none";
+      this.hideTimeout = null;
+    }, delay) as unknown as number;
+  }
+
+  cancelHide() {
+    if (this.hideTimeout !== null) {
+      clearTimeout(this.hideTimeout);
+      this.hideTimeout = null;
+    }
+  }
+
+  private renderEntry(entry: HoverCardEntry): HTMLDivElement {
+    const { data, word, lemma, reasons } = entry;
+    const term = data.term ?? lemma ?? word;
+    const now = Date.now();
+    const due = isCardDue(data.stats, now);
+    const overdue = due ? overdueDays(data.stats!, now) : 0;
+    const entryDiv = document.createElement("div");
+    entryDiv.className = "entry";
+
+    const header = document.createElement("div");
+    const termSpan = document.createElement("span");
+    termSpan.className = "term";
+    termSpan.textContent = term;
+    header.appendChild(termSpan);
+    if (data.reading && data.reading !== term) {
+      const readingSpan = document.createElement("span");
+      readingSpan.className = "reading";
+      readingSpan.textContent = data.reading;
+      header.appendChild(readingSpan);
+    }
+    if (due) {
+      const dueSpan = document.createElement("span");
+      dueSpan.className = overdue > 0 ? "due overdue" : "due";
+      dueSpan.textContent = overdue > 0 ? "Overdue" : "Due";
+      header.appendChild(dueSpan);
+    }
+    entryDiv.appendChild(header);
+
+    if (lemma && word !== term) {
+      const surface = document.createElement("div");
+      surface.className = "surface";
+      surface.textContent = `${word} → ${term}${reasons?.length ? ` (${reasons.join(", ")})` : ""}`;
+      entryDiv.appendChild(surface);
+    }
+
+    if (data.meaning) {
+      const meaning = document.createElement("div");
+      meaning.className = "meaning";
+      meaning.textContent = data.meaning;
+      entryDiv.appendChild(meaning);
+    }
+
+    const rows: (ScoreComponent & { detail?: boolean })[] = [
+      { label: "Score", value: `${Math.round(data.difficultyLevel)}%` },
+      ...entry.breakdown.map((component) => ({ ...component, detail: true })),
+    ];
+    if (data.stats) {
+      rows.push(
+        { label: "Interval", value: `${data.stats.interval} d` },
+        { label: "Lapses", value: `${data.stats.lapses}` },
+        { label: "Reviews", value: `${data.stats.reps}` },
+      );
+      if (data.stats.queue === -1) {
+        rows.push({ label: "Due", value: "suspended" });
+      } else if (due) {
+        rows.push({
+          label: "Due",
+          value: overdue > 0 ? `overdue by ${overdue} d` : "now",
+        });
+      } else if (data.stats.due) {
+        rows.push({ label: "Due", value: formatDate(data.stats.due) });
+      }
+    }
+    if (entry.exposure) {
+      const { count, firstSeen, lastSeen } = entry.exposure;
+      rows.push(
+        {
+          label: "Seen on",
+          value: `${count} ${count === 1 ? "page" : "pages"}`,
+        },
+        { label: "First seen", value: formatDate(firstSeen) },
+        { label: "Last seen", value: formatDate(lastSeen) },
+      );
+    }
+    const stats = document.createElement("dl");
+    stats.className = "stats";
+    rows.forEach(({ label, value, detail }) => {
+      const dt = document.createElement("dt");
+      dt.textContent = label;
+      if (detail) dt.className = "detail";
+      const dd = document.createElement("dd");
+      dd.textContent = value;
+      stats.append(dt, dd);
+    });
+    entryDiv.appendChild(stats);
+
+    const sample = entry.exposure?.samples[0];
+    if (sample) {
+      const sampleDiv = document.createElement("div");
+      sampleDiv.className = "sample";
+      sampleDiv.textContent = sample.sentence;
+      const link = document.createElement("a");
+      link.href = sample.url;
+      link.target = "_blank";
+      link.rel = "noopener noreferrer";
+      link.textContent = new URL(sample.url).hostname;
+      link.title = sample.title;
+      sampleDiv.appendChild(link);
+      entryDiv.appendChild(sampleDiv);
+    }
+
+    const message = document.createElement("div");
+    message.className = "message";
+
+    // Grade due cards like in the reviewer
+    if (due && data.cardId !== undefined) {
+      const answers = document.createElement("div");
+      answers.className = "actions";
+      const answerButtons = Object.entries(ANSWER_EASES).map(
+        ([ease, label]) => {
+          const button = document.createElement("button");
+          button.textContent = label;
+          button.addEventListener("click", async () => {
+            answerButtons.forEach((answerButton) => {
+              answerButton.disabled = true;
+            });
+            const result = await this.onAnswer(
+              data.cardId!,
+              Number(ease) as AnswerEase,
+            );
+            message.textContent = result.message;
+            if (result.answered) {
+              answers.remove();
+            } else {
+              answerButtons.forEach((answerButton) => {
+                answerButton.disabled = false;
+              });
+            }
+          });
+          return button;
+        },
+      );
+      answers.append(...answerButtons);
+      entryDiv.appendChild(answers);
+    }
+
+    const actions = document.createElement("div");
+    actions.className = "actions";
+    const buttons: { action: CardAction; label: string }[] = [
+      { action: "browse", label: "Open in Anki" },
+      { action: "suspend", label: "Suspend" },
+      { action: "relearn", label: "Relearn" },
+    ];
+    buttons.forEach(({ action, label }) => {
+      const button = document.createElement("button");
+      button.textContent = label;
+      button.disabled = data.cardId === undefined;
+      button.addEventListener("click", async () => {
+        button.disabled = true;
+        message.textContent = await this.onAction(action, data.cardId!);
+        button.disabled = false;
+      });
+      actions.appendChild(button);
+    });
+    entryDiv.append(actions, message);
+
+    return entryDiv;
+  }
+}
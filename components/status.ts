@@ -0,0 +1,59 @@
+import type { ConnectionStatus } from "@/utils/anki-connect";
+import type { SyncStatus } from "@/utils/settings";
+
+// Status lines and messages, shared by the popup and the options page
+
+export function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString();
+}
+
+// Show a message in a status box for a few seconds
+export function showStatus(
+  element: HTMLElement,
+  message: string,
+  isError = false,
+) {
+  element.textContent = message;
+  element.className = `status ${isError ? "error" : "success"}`;
+  element.style.display = "block";
+  setTimeout(() => {
+    element.style.display = "none";
+  }, 3000);
+}
+
+export async function renderConnectionStatus(element: HTMLElement) {
+  element.className = "connection";
+  element.textContent = "Checking AnkiConnect...";
+  const status: ConnectionStatus = await browser.runtime.sendMessage({
+    action: "getConnectionStatus",
+  });
+  element.className = `connection ${status.connected ? "connected" : "disconnected"}`;
+  element.textContent = status.connected
+    ? `Connected to AnkiConnect (API ${status.version})`
+    : "Not connected to AnkiConnect";
+  if (status.lastError && status.lastErrorAt) {
+    element.title = `Last error (${formatTime(status.lastErrorAt)}): ${status.lastError}`;
+    if (!status.connected) {
+      element.textContent += `: ${status.lastError}`;
+    }
+  }
+}
+
+export async function renderSyncStatus(element: HTMLElement) {
+  const status: SyncStatus = await browser.runtime.sendMessage({
+    action: "getSyncStatus",
+  });
+  const parts = [
+    status.lastSync
+      ? `Last sync ${formatTime(status.lastSync)}`
+      : "Not synced yet",
+  ];
+  if (status.syncing) {
+    parts.push("syncing now");
+  } else if (status.waitingForAnki) {
+    parts.push("syncing once Anki is open");
+  } else if (status.nextSync) {
+    parts.push(`next ${formatTime(status.nextSync)}`);
+  }
+  element.textContent = parts.join(", ");
+}
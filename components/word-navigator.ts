@@ -0,0 +1,135 @@
+import type { HighlightEntry } from "./highlighter";
+
+// Where a word is on the page, in page coordinates so it stays put while the
+// window scrolls
+interface WordPosition {
+  top: number;
+  left: number;
+  height: number;
+}
+
+interface WordStop {
+  entry: HighlightEntry;
+  position: WordPosition;
+}
+
+function positionOf(rect: DOMRect): WordPosition {
+  return {
+    top: rect.top + window.scrollY,
+    left: rect.left + window.scrollX,
+    height: rect.height,
+  };
+}
+
+// Reading order: top to bottom, then left to right for words whose middles
+// are on the same line
+function compareStops(a: WordPosition, b: WordPosition): number {
+  const middle = a.top + a.height / 2 - (b.top + b.height / 2);
+  if (Math.abs(middle) > Math.min(a.height, b.height) / 2) return middle;
+  return a.left - b.left;
+}
+
+// Moves a focus ring through the highlighted words with the keyboard
+export class WordNavigator {
+  private ring: HTMLDivElement;
+  private current: WordStop | null = null;
+  private frame: number | null = null;
+
+  constructor(private entries: () => HighlightEntry[]) {
+    this.ring = document.createElement("div");
+    this.ring.id = "anki-levels-focus-ring";
+    this.ring.style.cssText =
+      "position: fixed; pointer-events: none; z-index: 999998; border: 2px solid #1e88e5; border-radius: 3px; box-shadow: 0 0 0 2px rgba(255,255,255,0.8); display: none;";
+    document.documentElement.appendChild(this.ring);
+
+    // Follow the word as the page or one of its containers scrolls
+    const follow = () => {
+      if (this.current && this.frame === null) {
+        this.frame = requestAnimationFrame(() => {
+          this.frame = null;
+          this.updateRing();
+        });
+      }
+    };
+    document.addEventListener("scroll", follow, {
+      capture: true,
+      passive: true,
+    });
+    window.addEventListener("resize", follow);
+  }
+
+  // The focused word, while it is still on the page
+  get focused(): HighlightEntry | null {
+    const entry = this.current?.entry;
+    return entry && !entry.range.collapsed ? entry : null;
+  }
+
+  // Focus the next word in reading order up to a level, or the previous one.
+  // Starts from the focused word, or from the top or bottom of the window.
+  // Returns null when there are no more words that way.
+  move(direction: 1 | -1, maxLevel: number): HighlightEntry | null {
+    const stops = this.entries()
+      .filter(
+        ({ hidden, matches }) =>
+          !hidden && matches[0].data.difficultyLevel <= maxLevel,
+      )
+      .flatMap((entry): WordStop[] => {
+        const rect = entry.range.getBoundingClientRect();
+        if (rect.width === 0 && rect.height === 0) return [];
+        return [{ entry, position: positionOf(rect) }];
+      })
+      .sort((a, b) => compareStops(a.position, b.position));
+
+    const from: WordPosition = this.current?.position ?? {
+      top: window.scrollY + (direction === 1 ? 0 : window.innerHeight),
+      left: direction === 1 ? -Infinity : Infinity,
+      height: 0,
+    };
+    const next =
+      direction === 1
+        ? stops.find(({ position }) => compareStops(position, from) > 0)
+        : stops.findLast(({ position }) => compareStops(position, from) < 0);
+    if (!next) return null;
+
+    this.scrollTo(next.entry.range);
+    this.current = {
+      entry: next.entry,
+      position: positionOf(next.entry.range.getBoundingClientRect()),
+    };
+    this.updateRing();
+    return next.entry;
+  }
+
+  // Forget the focused word, the next move starts from the window again
+  clear() {
+    this.current = null;
+    this.ring.style.display = "none";
+  }
+
+  // Scroll scrolling containers and then the window until the word is on
+  // screen, the window centering it
+  private scrollTo(range: Range) {
+    const container = range.startContainer;
+    const element =
+      container instanceof Element ? container : container.parentElement;
+    element?.scrollIntoView({ block: "nearest", inline: "nearest" });
+    const rect = range.getBoundingClientRect();
+    if (rect.top < 0 || rect.bottom > window.innerHeight) {
+      window.scrollBy(0, rect.top - (window.innerHeight - rect.height) / 2);
+    }
+  }
+
+  private updateRing() {
+    const entry = this.focused;
+    const rect = entry?.range.getBoundingClientRect();
+    if (!rect || (rect.width === 0 && rect.height === 0)) {
+      this.ring.style.display = "none";
+      return;
+    }
+    this.ring.style.top = `${rect.top - 3}px`;
+    this.ring.style.left = `${rect.left - 3}px`;
+    this.ring.style.width = `${rect.width + 2}px`;
+    this.ring.style.height = `${rect.height + 2}px`;
+    this.ring.style.display = "block";
+  }
+}
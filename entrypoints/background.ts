@@ -1,316 +1,1374 @@
+import {
+  escapeHtml,
+  extractNoteFields,
+  resolveFieldMapping,
+} from "@/utils/fields";
+import {
+  AnkiConnect,
+  ANSWER_EASES,
+  type AnswerEase,
+} from "@/utils/anki-connect";
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  isPortableMetadata,
+  parseBackup,
+  type Backup,
+} from "@/utils/backup";
+import { AnkiDB, type CardRecord, type SyncReport } from "@/utils/db";
+import { buildExposureReport, type SeenWord } from "@/utils/exposure";
+import type { ImportedWord, ImportFormat, ImportSource } from "@/utils/import";
+import { buildMatcher, type SerializedMatcher } from "@/utils/matcher";
+import {
+  buildWordIndex,
+  WORDS_PROTOCOL_VERSION,
+  type WordsRequest,
+  type WordsResponse,
+} from "@/utils/messages";
+import { createNormalizer, type Normalizer } from "@/utils/normalize";
+import {
+  lastReviewStats,
+  scoreCard,
+  type ReviewLogEntry,
+} from "@/utils/scoring";
+import {
+  getAnkiConnectSettings,
+  getProfiles,
+  getSyncSettings,
+  type AnkiConnectSettings,
+  type Profile,
+  type SyncStatus,
+  type WordSource,
+} from "@/utils/settings";
+import { NEW_CARD_STATS, type WordData } from "@/utils/words";
+
 interface AnkiCard {
   cardId: number;
+  // Note id
+  note: number;
+  modelName: string;
   fields: {
-    Expression?: { value: string };
     [key: string]: { value: string } | undefined;
   };
   interval: number;
-  ease: number;
+  factor: number;
   reps: number;
   lapses: number;
+  type: number;
+  queue: number;
+  // Seconds since epoch for intraday learning cards, otherwise a day number
+  due: number;
+  // Last modification, seconds since epoch
+  mod: number;
 }
 
-interface AnkiConnectResponse {
-  result: any;
-  error: string | null;
+// Selected text and its context, captured by the content script
+interface MiningCapture {
+  profileId: string;
+  word: string;
+  sentence: string;
+  title: string;
+  url: string;
 }
 
-// IndexedDB helper class
-class AnkiDB {
-  private dbName = "AnkiLevelsDB";
-  private storeName = "words";
-  private version = 1;
-  private db: IDBDatabase | null = null;
+interface NoteTypeInfo {
+  modelName: string;
+  fieldNames: string[];
+  noteCount: number;
+}
 
-  async init(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open(this.dbName, this.version);
+// Run an AnkiConnect action over card ids in batches to reduce latency
+async function callInBatches<T>(
+  cardIds: number[],
+  request: (batch: number[]) => Promise<T>,
+): Promise<T[]> {
+  const BATCH_SIZE = 500;
+  const batches: number[][] = [];
+  for (let i = 0; i < cardIds.length; i += BATCH_SIZE) {
+    batches.push(cardIds.slice(i, i + BATCH_SIZE));
+  }
 
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => {
-        this.db = request.result;
-        resolve();
-      };
+  // Process batches in parallel (max 5 concurrent requests)
+  const MAX_CONCURRENT = 5;
+  const allResults: T[] = [];
 
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        if (!db.objectStoreNames.contains(this.storeName)) {
-          db.createObjectStore(this.storeName, { keyPath: "word" });
-        }
-      };
-    });
+  for (let i = 0; i < batches.length; i += MAX_CONCURRENT) {
+    const batchGroup = batches.slice(i, i + MAX_CONCURRENT);
+    const results = await Promise.all(batchGroup.map(request));
+    allResults.push(...results);
   }
 
-  async saveWords(
-    words: Map<string, { difficultyLevel: number }>,
-  ): Promise<void> {
-    if (!this.db) await this.init();
+  return allResults;
+}
 
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.storeName], "readwrite");
-      const store = transaction.objectStore(this.storeName);
+async function fetchCardsInfo(cardIds: number[]): Promise<AnkiCard[]> {
+  const results = await callInBatches<AnkiCard[]>(cardIds, (batch) =>
+    anki.request("cardsInfo", { cards: batch }),
+  );
+  return results.flat();
+}
 
-      // Clear existing data
-      store.clear();
+// Review logs keyed by card id
+async function fetchReviews(
+  cardIds: number[],
+): Promise<Record<string, ReviewLogEntry[]>> {
+  const results = await callInBatches<Record<string, ReviewLogEntry[]>>(
+    cardIds,
+    (batch) => anki.request("getReviewsOfCards", { cards: batch.map(String) }),
+  );
+  return Object.assign({}, ...results);
+}
 
-      // Add all words
-      words.forEach((data, word) => {
-        store.put({ word, difficultyLevel: data.difficultyLevel });
-      });
+function buildCardStats(
+  card: AnkiCard,
+  reviews: ReviewLogEntry[] | undefined,
+  desiredRetention: number,
+): CardStats {
+  const stats: CardStats = {
+    interval: card.interval || 0,
+    factor: card.factor || 0,
+    reps: card.reps || 0,
+    lapses: card.lapses || 0,
+    type: card.type,
+    queue: card.queue,
+    lastReview: card.mod ? card.mod * 1000 : undefined,
+  };
 
-      transaction.oncomplete = () => resolve();
-      transaction.onerror = () => reject(transaction.error);
-    });
+  const lastReview = lastReviewStats(reviews, desiredRetention);
+  if (lastReview) Object.assign(stats, lastReview);
+
+  // Day-number due dates are relative to the collection's creation, which
+  // AnkiConnect does not expose, so review cards are dated from the last review
+  if (card.queue === 1) {
+    stats.due = card.due * 1000;
+  } else if (card.type !== 0 && stats.lastReview) {
+    stats.due = stats.lastReview + stats.interval * DAY;
   }
+  return stats;
+}
 
-  async getWords(): Promise<Map<string, { difficultyLevel: number }> | null> {
-    if (!this.db) await this.init();
-
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.storeName], "readonly");
-      const store = transaction.objectStore(this.storeName);
-      const request = store.getAll();
-
-      request.onsuccess = () => {
-        const results = request.result;
-        if (results.length === 0) {
-          resolve(null);
-        } else {
-          const wordMap = new Map<string, { difficultyLevel: number }>();
-          results.forEach((item: any) => {
-            wordMap.set(item.word, { difficultyLevel: item.difficultyLevel });
-          });
-          resolve(wordMap);
-        }
-      };
-      request.onerror = () => reject(request.error);
-    });
+// Card ids matched by each source. Later sources win, like they did when
+// the word map was rebuilt source by source.
+async function findSourceCards(
+  profile: Profile,
+  filter?: string,
+): Promise<Map<number, WordSource>> {
+  const cardSources = new Map<number, WordSource>();
+  for (const source of profile.sources) {
+    if (!source.query.trim()) continue;
+
+    const query = filter ? `(${source.query}) ${filter}` : source.query;
+    const cardIds: number[] = await anki.request("findCards", { query });
+    cardIds.forEach((cardId) => cardSources.set(cardId, source));
   }
+  return cardSources;
+}
 
-  async saveMetadata(key: string, value: any): Promise<void> {
-    if (!this.db) await this.init();
+// Fetch cards, leaving out those whose fields give no term
+async function fetchCardRecords(
+  profile: Profile,
+  cardSources: Map<number, WordSource>,
+  cardIds: number[],
+): Promise<CardRecord[]> {
+  if (cardIds.length === 0) return [];
 
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.storeName], "readwrite");
-      const store = transaction.objectStore(this.storeName);
-      store.put({ word: `__metadata_${key}`, value });
+  const cards = await fetchCardsInfo(cardIds);
+  // Review history is only needed by the FSRS scorer
+  const reviews =
+    profile.scoring.strategy === "fsrs" ? await fetchReviews(cardIds) : {};
 
-      transaction.oncomplete = () => resolve();
-      transaction.onerror = () => reject(transaction.error);
-    });
-  }
+  return cards.flatMap((card) => {
+    const source = cardSources.get(card.cardId);
+    if (!source) return [];
 
-  async getMetadata(key: string): Promise<any> {
-    if (!this.db) await this.init();
+    const mapping = resolveFieldMapping(
+      Object.keys(card.fields ?? {}),
+      source.fieldMappings[card.modelName],
+    );
+    if (!mapping) return [];
 
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.storeName], "readonly");
-      const store = transaction.objectStore(this.storeName);
-      const request = store.get(`__metadata_${key}`);
+    const note = extractNoteFields(card.fields, mapping);
+    if (!note) return [];
 
-      request.onsuccess = () => {
-        resolve(request.result?.value);
-      };
-      request.onerror = () => reject(request.error);
-    });
-  }
+    return [
+      {
+        profileId: profile.id,
+        cardId: card.cardId,
+        noteId: card.note,
+        term: note.term,
+        reading: note.reading,
+        meaning: note.meaning,
+        modelName: card.modelName,
+        fields: Object.fromEntries(
+          Object.entries(card.fields ?? {}).map(([name, field]) => [
+            name,
+            field?.value ?? "",
+          ]),
+        ),
+        sourceIndex: profile.sources.indexOf(source),
+        mod: card.mod,
+        stats: buildCardStats(
+          card,
+          reviews[card.cardId],
+          profile.scoring.fsrs.desiredRetention,
+        ),
+      },
+    ];
+  });
 }
 
-async function callAnkiConnect(action: string, params: any = {}): Promise<any> {
-  const response = await fetch("http://localhost:8765", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ action, version: 6, params }),
+// Read the scheduling of stored cards again, keeping their term and fields,
+// e.g. for mined cards that no source matches. Cards deleted in Anki are
+// left out.
+async function rereadCards(
+  profile: Profile,
+  cards: CardRecord[],
+): Promise<CardRecord[]> {
+  if (cards.length === 0) return [];
+  const stored = new Map(cards.map((card) => [card.cardId, card]));
+  // Deleted cards come back empty
+  const infos = (await fetchCardsInfo(Array.from(stored.keys()))).filter(
+    (card) => card.cardId !== undefined,
+  );
+  const reviews =
+    profile.scoring.strategy === "fsrs" && infos.length > 0
+      ? await fetchReviews(infos.map(({ cardId }) => cardId))
+      : {};
+  return infos.flatMap((info) => {
+    const card = stored.get(info.cardId);
+    if (!card) return [];
+    return [
+      {
+        ...card,
+        mod: info.mod,
+        stats: buildCardStats(
+          info,
+          reviews[info.cardId],
+          profile.scoring.fsrs.desiredRetention,
+        ),
+      },
+    ];
   });
+}
 
-  const data: AnkiConnectResponse = await response.json();
-  if (data.error) {
-    throw new Error(`AnkiConnect error: ${data.error}`);
-  }
-  return data.result;
+// Words of a profile's cards, scored now. Where cards share a term the
+// later source wins, then the newer card.
+function wordsFromCards(
+  cards: Iterable<CardRecord>,
+  profile: Profile,
+): Map<string, WordData> {
+  const now = Date.now();
+  const words = new Map<string, WordData>();
+  [...cards]
+    .sort((a, b) => a.sourceIndex - b.sourceIndex || a.cardId - b.cardId)
+    .forEach((card) => {
+      words.set(card.term, {
+        difficultyLevel: scoreCard(card.stats, profile.scoring, now),
+        reading: card.reading,
+        meaning: card.meaning,
+        cardId: card.cardId,
+        stats: card.stats,
+      });
+    });
+  return words;
 }
 
-async function fetchJapaneseCards(): Promise<
-  Map<string, { difficultyLevel: number }>
-> {
-  try {
-    // Get deck name from storage
-    const storage = await browser.storage.local.get("deckName");
-    const deckName = storage.deckName;
+// Anything that changes which cards are read or how: a change forces a full sync
+function syncSignature(profile: Profile): string {
+  return JSON.stringify({
+    sources: profile.sources,
+    reviews: profile.scoring.strategy === "fsrs",
+  });
+}
 
-    if (!deckName) {
-      return new Map();
-    }
+async function syncProfile(profile: Profile): Promise<SyncReport> {
+  const startTime = Date.now();
+  const signature = syncSignature(profile);
+  const previousState = await db.getSyncState(profile.id);
+  const storedCards = await db.getCards(profile.id);
+  const oldWords =
+    cachedWords.get(profile.id) ?? wordsFromCards(storedCards, profile);
 
-    // Find all cards in the specified deck
-    // Quote deck name to handle spaces properly
-    const cardIds = await callAnkiConnect("findCards", {
-      query: `deck:"${deckName}"`,
-    });
+  const isFull =
+    !previousState ||
+    previousState.signature !== signature ||
+    storedCards.length === 0;
+  const oldCards = new Map(
+    isFull ? [] : storedCards.map((card) => [card.cardId, card]),
+  );
 
-    if (!cardIds || cardIds.length === 0) {
-      return new Map();
-    }
+  // Every card currently matched, to spot additions and removals
+  const cardSources = await findSourceCards(profile);
 
-    // Batch card info requests to reduce latency
-    const BATCH_SIZE = 500;
-    const batches: number[][] = [];
-    for (let i = 0; i < cardIds.length; i += BATCH_SIZE) {
-      batches.push(cardIds.slice(i, i + BATCH_SIZE));
-    }
+  const toFetch = new Set<number>();
+  if (isFull) {
+    cardSources.forEach((_source, cardId) => toFetch.add(cardId));
+  } else {
+    cardSources.forEach((_source, cardId) => {
+      if (!oldCards.has(cardId)) toFetch.add(cardId);
+    });
 
-    // Process batches in parallel (max 5 concurrent requests)
-    const MAX_CONCURRENT = 5;
-    const allCardsInfo: any[] = [];
+    // Notes edited or cards reviewed since the last sync. Both count whole
+    // days, so look back one extra day.
+    const days = Math.ceil((startTime - previousState.lastSync) / DAY) + 1;
+    const recent = await findSourceCards(
+      profile,
+      `(edited:${days} OR rated:${days})`,
+    );
+    recent.forEach((_source, cardId) => toFetch.add(cardId));
 
-    for (let i = 0; i < batches.length; i += MAX_CONCURRENT) {
-      const batchGroup = batches.slice(i, i + MAX_CONCURRENT);
-      const results = await Promise.all(
-        batchGroup.map((batch) =>
-          callAnkiConnect("cardsInfo", { cards: batch }),
-        ),
-      );
-      results.forEach((result) => allCardsInfo.push(...result));
-    }
-
-    const wordMap = new Map<string, { difficultyLevel: number }>();
-
-    allCardsInfo.forEach((card) => {
-      const expression = card.fields?.Expression?.value;
-      if (!expression) return;
-
-      // Calculate difficulty level (0-100) based on card stats
-      // Higher interval = easier (better known)
-      // More lapses = harder
-      const interval = card.interval || 0;
-      const lapses = card.lapses || 0;
-      const reps = card.reps || 0;
-
-      // Base score from interval (most important factor)
-      // 1 day = 10 points, 21 days (3 weeks) = 50 points, 90 days (3 months) = 75 points, 180+ days = 90+ points
-      let intervalScore = 0;
-      if (interval >= 180) {
-        intervalScore = 90 + Math.min((interval - 180) / 365, 1) * 10; // 90-100 for 6+ months
-      } else if (interval >= 90) {
-        intervalScore = 75 + ((interval - 90) / 90) * 15; // 75-90 for 3-6 months
-      } else if (interval >= 21) {
-        intervalScore = 50 + ((interval - 21) / 69) * 25; // 50-75 for 3 weeks to 3 months
-      } else if (interval >= 7) {
-        intervalScore = 30 + ((interval - 7) / 14) * 20; // 30-50 for 1-3 weeks
-      } else if (interval >= 1) {
-        intervalScore = 10 + ((interval - 1) / 6) * 20; // 10-30 for 1-7 days
-      } else {
-        intervalScore = 0; // New card
-      }
+    // Scheduling changes without a review (reschedule, forget) only show up
+    // in the card modification time
+    const knownIds = Array.from(cardSources.keys()).filter(
+      (cardId) => oldCards.has(cardId) && !toFetch.has(cardId),
+    );
+    const modTimes = await callInBatches<{ cardId: number; mod: number }[]>(
+      knownIds,
+      (batch) => anki.request("cardsModTime", { cards: batch }),
+    );
+    modTimes.flat().forEach(({ cardId, mod }) => {
+      if (mod !== oldCards.get(cardId)!.mod) toFetch.add(cardId);
+    });
+  }
 
-      // Lapses penalty: small penalty for mistakes (not too harsh)
-      // 0 lapses = 0 penalty, 1-2 lapses = -5 to -10, 3+ lapses = -15+
-      const lapsesScore = -Math.min(lapses * 5, 25);
+  const fetched = await fetchCardRecords(
+    profile,
+    cardSources,
+    Array.from(toFetch),
+  );
+  const fetchedIds = new Set(fetched.map(({ cardId }) => cardId));
 
-      // Bonus for cards with any reviews (you've seen it at least)
-      const repsBonus = reps > 0 ? Math.min(reps * 2, 10) : 0;
+  // Mined cards no source matches keep their term and only have their
+  // scheduling read again
+  const mined = storedCards.filter(
+    ({ cardId, mined }) => mined && !cardSources.has(cardId),
+  );
+  const minedMods = new Map(mined.map(({ cardId, mod }) => [cardId, mod]));
+  const reread = await rereadCards(profile, mined);
+  const keptMined = new Set(reread.map(({ cardId }) => cardId));
+  fetched.push(
+    ...reread.filter(({ cardId, mod }) => minedMods.get(cardId) !== mod),
+  );
 
-      let difficultyLevel = intervalScore + lapsesScore + repsBonus;
-      difficultyLevel = Math.max(0, Math.min(100, difficultyLevel));
+  // Cards no longer matched, and read ones whose fields no longer give a term
+  const deletes = new Set(
+    storedCards
+      .map(({ cardId }) => cardId)
+      .filter(
+        (cardId) =>
+          (!cardSources.has(cardId) && !keptMined.has(cardId)) ||
+          (toFetch.has(cardId) && !fetchedIds.has(cardId)),
+      ),
+  );
 
-      wordMap.set(expression, { difficultyLevel: difficultyLevel });
-    });
+  const cards = new Map(storedCards.map((card) => [card.cardId, card]));
+  deletes.forEach((cardId) => cards.delete(cardId));
+  fetched.forEach((card) => cards.set(card.cardId, card));
+  const words = wordsFromCards(cards.values(), profile);
 
-    return wordMap;
-  } catch (error) {
-    console.error("Error fetching Anki cards:", error);
-    return new Map();
+  // Only words of changed cards count, the others were just rescored
+  const changedTerms = new Set(fetched.map(({ term }) => term));
+  storedCards.forEach(({ cardId, term }) => {
+    if (toFetch.has(cardId) || deletes.has(cardId)) {
+      changedTerms.add(term);
+    }
+  });
+  let added = 0;
+  let updated = 0;
+  let removed = 0;
+  changedTerms.forEach((term) => {
+    const oldData = oldWords.get(term);
+    const data = words.get(term);
+    if (!oldData && data) {
+      added++;
+    } else if (oldData && !data) {
+      removed++;
+    } else if (JSON.stringify(oldData) !== JSON.stringify(data)) {
+      updated++;
+    }
+  });
+
+  await db.updateCards(profile.id, fetched, Array.from(deletes));
+  // Words from before card ids were kept are replaced by the cards now
+  await db.deleteWords(profile.id);
+  if (added > 0 || removed > 0) {
+    cachedMatchers.delete(profile.id);
   }
+  cachedWords.set(profile.id, words);
+
+  await db.saveSyncState({
+    profileId: profile.id,
+    lastSync: startTime,
+    signature,
+  });
+
+  return {
+    time: startTime,
+    profileId: profile.id,
+    profileName: profile.name,
+    mode: isFull ? "full" : "delta",
+    added,
+    updated,
+    removed,
+    total: words.size,
+    duration: Date.now() - startTime,
+  };
+}
+
+// List the note types matched by a query, with their field names
+async function fetchNoteTypes(query: string): Promise<NoteTypeInfo[]> {
+  const modelNames: string[] = await anki.request("modelNames");
+  const noteTypes = await Promise.all(
+    modelNames.map(async (modelName) => {
+      const escapedName = modelName.replace(/"/g, '\\"');
+      const noteIds: number[] = await anki.request("findNotes", {
+        query: `(${query}) "note:${escapedName}"`,
+      });
+      if (noteIds.length === 0) return null;
+
+      const fieldNames: string[] = await anki.request("modelFieldNames", {
+        modelName,
+      });
+      return { modelName, fieldNames, noteCount: noteIds.length };
+    }),
+  );
+  return noteTypes.filter((noteType) => noteType !== null);
 }
 
 const db = new AnkiDB();
-let cachedWords: Map<string, { difficultyLevel: number }> | null = null;
+const anki = new AnkiConnect();
+// Word sets keyed by profile id, or import key for imported files
+const cachedWords = new Map<string, Map<string, WordData>>();
+// Matchers built from each profile's word set, dropped when its terms change
+const cachedMatchers = new Map<string, SerializedMatcher>();
 let isSyncing = false;
-const SYNC_INTERVAL = 24 * 60 * 60 * 1000; // 24 hours
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const SYNC_HISTORY_LIMIT = 50;
+// The service worker is stopped when idle, so timers live in alarms
+const SYNC_ALARM = "sync";
+const RETRY_ALARM = "syncRetry";
+const RESCORE_ALARM = "rescore";
+const RESCORE_INTERVAL = 60; // minutes
+// How often to check whether Anki is back after it could not be reached
+const RETRY_INTERVAL = 1; // minutes
+// The sync lock outlives this instance, so a sync that was stopped with the
+// service worker blocks others only until it expires. Renewed per profile.
+const SYNC_LOCK = "sync";
+const SYNC_LOCK_TIMEOUT = 10 * MINUTE;
+const instanceId = crypto.randomUUID();
+// Profiles without cards whose first sync was started by a words request.
+// Later requests do not wait for it, and a failed one is retried like any
+// other sync.
+const firstSyncs = new Set<string>();
+// Shortcuts for the reading assist, forwarded to the tab as messages
+const READING_COMMANDS: Record<string, object> = {
+  "next-word": { action: "focusWord", direction: 1 },
+  "previous-word": { action: "focusWord", direction: -1 },
+  "show-word-details": { action: "showWordDetails" },
+  "toggle-focus-mode": { action: "toggleFocusMode" },
+};
 
-async function syncWithAnki() {
-  if (isSyncing) return;
+// Tell open tabs that words changed, so they redraw in place
+async function broadcastWordsUpdated(profileIds: string[]) {
+  if (profileIds.length === 0) return;
+  const tabs = await browser.tabs.query({});
+  tabs.forEach((tab) => {
+    if (!tab.id) return;
+    browser.tabs
+      .sendMessage(tab.id, { action: "wordsUpdated", profileIds })
+      .catch(() => {
+        // No content script on this tab
+      });
+  });
+}
+
+function failedReport(
+  profile: Profile,
+  startTime: number,
+  error: unknown,
+): SyncReport {
+  return {
+    time: startTime,
+    profileId: profile.id,
+    profileName: profile.name,
+    mode: "failed",
+    added: 0,
+    updated: 0,
+    removed: 0,
+    total: cachedWords.get(profile.id)?.size ?? 0,
+    duration: Date.now() - startTime,
+    error: (error as Error).message,
+  };
+}
+
+// Schedule the next sync one interval after the last successful one, right
+// away when that has passed
+async function scheduleSync() {
+  const { interval } = await getSyncSettings();
+  const lastSync: number = (await db.getMetadata("lastSync")) ?? 0;
+  await browser.alarms.create(SYNC_ALARM, {
+    when: Math.max(Date.now(), lastSync + interval * MINUTE),
+    periodInMinutes: interval,
+  });
+}
+
+// Sync as soon as Anki answers again, unless that is turned off
+async function scheduleRetry() {
+  const { retryWhenReachable } = await getSyncSettings();
+  if (!retryWhenReachable) return;
+  await browser.alarms.create(RETRY_ALARM, {
+    periodInMinutes: RETRY_INTERVAL,
+  });
+}
+
+async function retryIfReachable() {
+  const status = await anki.checkConnection();
+  if (status.connected) syncWithAnki();
+}
+
+async function getSyncStatus(): Promise<SyncStatus> {
+  const [lastSync, syncAlarm, retryAlarm, locked] = await Promise.all([
+    db.getMetadata("lastSync"),
+    browser.alarms.get(SYNC_ALARM),
+    browser.alarms.get(RETRY_ALARM),
+    db.isLocked(SYNC_LOCK),
+  ]);
+  return {
+    lastSync,
+    nextSync: syncAlarm?.scheduledTime,
+    syncing: isSyncing || locked,
+    waitingForAnki: !!retryAlarm,
+  };
+}
+
+async function syncWithAnki(): Promise<SyncReport[]> {
+  if (isSyncing) return [];
   isSyncing = true;
+  let locked = false;
 
   try {
+    locked = await db.acquireLock(SYNC_LOCK, instanceId, SYNC_LOCK_TIMEOUT);
+    if (!locked) {
+      console.log("Another sync is running");
+      return [];
+    }
     console.log("Syncing with Anki...");
-    const words = await fetchJapaneseCards();
-    cachedWords = words;
-    await db.saveWords(words);
-    await db.saveMetadata("lastSync", Date.now());
-    console.log(`Synced ${words.size} words from Anki`);
+    const profiles = await getProfiles();
+    const reports: SyncReport[] = [];
+
+    // A profile is only written once all of its cards were read, so an
+    // unreachable Anki never replaces stored words with an empty set
+    let connectionError: unknown = null;
+    try {
+      await anki.connect();
+    } catch (error) {
+      connectionError = error;
+    }
+    // Set once another worker took the lock over, the profiles left are
+    // synced by it
+    let lockError: Error | null = null;
+    for (const profile of profiles) {
+      const startTime = Date.now();
+      let report: SyncReport;
+      try {
+        if (connectionError) throw connectionError;
+        if (lockError) throw lockError;
+        if (!(await db.acquireLock(SYNC_LOCK, instanceId, SYNC_LOCK_TIMEOUT))) {
+          locked = false;
+          lockError = new Error("Another sync took over");
+          throw lockError;
+        }
+        report = await syncProfile(profile);
+      } catch (error) {
+        report = failedReport(profile, startTime, error);
+        console.error(`Could not sync profile "${profile.name}":`, error);
+      }
+      reports.push(report);
+      if (report.mode !== "failed") {
+        console.log(
+          `Synced profile "${profile.name}" (${report.mode}): ` +
+            `${report.added} added, ${report.updated} updated, ${report.removed} removed`,
+        );
+      }
+    }
+    // Cleaning up and scheduling are left to the sync that took over
+    if (lockError) {
+      await db.addSyncReports(reports, SYNC_HISTORY_LIMIT);
+      return reports;
+    }
+
+    // Drop cards and imported word sets of deleted profiles
+    const profileIds = new Set(profiles.map((profile) => profile.id));
+    for (const storedId of await db.getCardProfileIds()) {
+      if (!profileIds.has(storedId)) {
+        cachedWords.delete(storedId);
+        cachedMatchers.delete(storedId);
+        await db.deleteCards(storedId);
+        await db.deleteSyncState(storedId);
+      }
+    }
+    for (const key of await db.getWordSetKeys()) {
+      const ownerId = importOwner(key) ?? key;
+      if (!profileIds.has(ownerId)) {
+        cachedWords.delete(key);
+        await db.deleteWords(key);
+        await db.deleteMetadata(`imports:${ownerId}`);
+      }
+    }
+    for (const storedId of await db.getExposureProfileIds()) {
+      if (!profileIds.has(storedId)) await db.deleteExposures(storedId);
+    }
+
+    await db.addSyncReports(reports, SYNC_HISTORY_LIMIT);
+    // Failed profiles are retried at the next scheduled sync, or as soon as
+    // Anki can be reached
+    if (connectionError) {
+      await scheduleRetry();
+    } else {
+      await browser.alarms.clear(RETRY_ALARM);
+    }
+    if (reports.every(({ mode }) => mode !== "failed")) {
+      await db.saveMetadata("lastSync", Date.now());
+      await scheduleSync();
+    }
+    broadcastWordsUpdated(
+      reports
+        .filter(({ added, updated, removed }) => added + updated + removed > 0)
+        .map(({ profileId }) => profileId),
+    );
+    return reports;
   } catch (error) {
     console.error("Error syncing with Anki:", error);
+    return [];
   } finally {
+    if (locked) await db.releaseLock(SYNC_LOCK, instanceId);
     isSyncing = false;
   }
 }
 
-export default defineBackground(() => {
-  // Initialize database and load cached words
-  db.init().then(async () => {
-    // Try to load from IndexedDB first (instant)
-    const savedWords = await db.getWords();
-    if (savedWords) {
-      cachedWords = savedWords;
-      console.log(`Loaded ${savedWords.size} words from IndexedDB`);
-    }
+// Recompute scores from stored card stats, so retrievability keeps decaying
+// and scoring changes apply without a full re-sync
+async function rescoreWords() {
+  if (isSyncing) return;
 
-    // Check if we need to sync
-    const lastSync = await db.getMetadata("lastSync");
+  try {
+    const profiles = await getProfiles();
     const now = Date.now();
+    const rescored: string[] = [];
+    for (const profile of profiles) {
+      const imports = await getImports(profile.id);
+      const keys = [
+        profile.id,
+        ...imports.map(({ id }) => importKey(profile.id, id)),
+      ];
+      for (const key of keys) {
+        // Synced words are scored from their cards when loaded, so only
+        // cached ones need it
+        const synced = key === profile.id;
+        const words =
+          cachedWords.get(key) ?? (synced ? null : await db.getWords(key));
+        if (!words) continue;
 
-    if (!lastSync || now - lastSync > SYNC_INTERVAL) {
-      // Sync in background
-      syncWithAnki();
+        words.forEach((data) => {
+          if (data.stats) {
+            data.difficultyLevel = scoreCard(data.stats, profile.scoring, now);
+          }
+        });
+        // A sync started meanwhile has fresher data
+        if (isSyncing) return;
+        cachedWords.set(key, words);
+        if (!synced) await db.updateWords(key, words, []);
+        if (!rescored.includes(profile.id)) rescored.push(profile.id);
+      }
+    }
+    broadcastWordsUpdated(rescored);
+  } catch (error) {
+    console.error("Error rescoring words:", error);
+  }
+}
+
+async function getProfileWords(
+  profileId: string,
+): Promise<Map<string, WordData>> {
+  const cached = cachedWords.get(profileId);
+  if (cached) return cached;
+
+  // If not cached, score the stored cards. Words kept from before card ids
+  // were stored are shown until the first sync replaces them.
+  const profile = (await getProfiles()).find(({ id }) => id === profileId);
+  const cards = await db.getCards(profileId);
+  const legacyWords = await db.getWords(profileId);
+  if (profile && (cards.length > 0 || legacyWords)) {
+    const words = new Map(legacyWords ?? []);
+    wordsFromCards(cards, profile).forEach((data, term) =>
+      words.set(term, data),
+    );
+    cachedWords.set(profileId, words);
+    return words;
+  }
+
+  // No data yet: answer right away and sync in the background, once. Open
+  // tabs redraw when the sync broadcasts its new words.
+  if (!firstSyncs.has(profileId)) {
+    firstSyncs.add(profileId);
+    syncWithAnki();
+  }
+  return new Map();
+}
+
+// Store cards read outside a sync, then redo the words of their terms, which
+// other cards of the profile may share
+async function storeCards(profile: Profile, cards: CardRecord[]) {
+  await db.updateCards(profile.id, cards, []);
+  const words = await getProfileWords(profile.id);
+  for (const term of new Set(cards.map(({ term }) => term))) {
+    const sharing = await db.getCardsByTerm(profile.id, term);
+    const data = wordsFromCards(sharing, profile).get(term);
+    if (!data) continue;
+    if (!words.has(term)) cachedMatchers.delete(profile.id);
+    words.set(term, data);
+  }
+  broadcastWordsUpdated([profile.id]);
+}
+
+// Imported files are stored as word sets, under a key naming their profile
+function importKey(profileId: string, sourceId: string): string {
+  return `import:${profileId}:${sourceId}`;
+}
+
+// Profile an import key belongs to, null for a profile's own key
+function importOwner(key: string): string | null {
+  return key.startsWith("import:") ? key.split(":")[1] : null;
+}
+
+async function getImports(profileId: string): Promise<ImportSource[]> {
+  return (await db.getMetadata(`imports:${profileId}`)) ?? [];
+}
+
+async function getImportedWords(
+  profileId: string,
+  sourceId: string,
+): Promise<Map<string, WordData>> {
+  const key = importKey(profileId, sourceId);
+  let words = cachedWords.get(key);
+  if (!words) {
+    words = (await db.getWords(key)) ?? new Map();
+    cachedWords.set(key, words);
+  }
+  return words;
+}
+
+// Normalizer of each profile, with the settings it was built from
+const normalizers = new Map<
+  string,
+  { settings: string; normalizer: Normalizer }
+>();
+
+function getNormalizer(profile: Profile): Normalizer {
+  const settings = JSON.stringify(profile.normalization);
+  let entry = normalizers.get(profile.id);
+  if (entry?.settings !== settings) {
+    entry = { settings, normalizer: createNormalizer(profile.normalization) };
+    normalizers.set(profile.id, entry);
+  }
+  return entry.normalizer;
+}
+
+// Words highlighted on pages: the profile's imported files, where words
+// synced from Anki take precedence. Terms are normalized here, once for all
+// pages, which fold their text the same way before matching.
+async function getPageWords(profileId: string): Promise<Map<string, WordData>> {
+  const words = await getProfileWords(profileId);
+  const imports = await getImports(profileId);
+  let merged = words;
+  if (imports.length > 0) {
+    merged = new Map();
+    for (const source of imports) {
+      const imported = await getImportedWords(profileId, source.id);
+      imported.forEach((data, term) => merged.set(term, data));
+    }
+    words.forEach((data, term) => merged.set(term, data));
+  }
+
+  const profile = (await getProfiles()).find(({ id }) => id === profileId);
+  const normalizer = profile && getNormalizer(profile);
+  if (!normalizer?.changesText) return merged;
+
+  // Terms that fold to the same form share it, the later one wins as above
+  const normalized = new Map<string, WordData>();
+  merged.forEach((data, term) => {
+    const key = normalizer.term(term);
+    normalized.set(key, key === term ? data : { ...data, term });
+  });
+  return normalized;
+}
+
+// Score and store words read from a file. Importing a file of the same name
+// again replaces its words.
+async function importWords(
+  profileId: string,
+  name: string,
+  format: ImportFormat,
+  imported: ImportedWord[],
+): Promise<ImportSource> {
+  const profile = (await getProfiles()).find(({ id }) => id === profileId);
+  if (!profile) throw new Error("Save the profile before importing words");
+
+  const now = Date.now();
+  const words = new Map<string, WordData>();
+  imported.forEach(({ term, reading, meaning, stats }) => {
+    words.set(term, {
+      difficultyLevel: scoreCard(stats, profile.scoring, now),
+      reading,
+      meaning,
+      stats,
+    });
+  });
+  if (words.size === 0) throw new Error(`No words found in ${name}`);
+
+  const imports = await getImports(profileId);
+  const source: ImportSource = {
+    id:
+      imports.find((source) => source.name === name)?.id ?? crypto.randomUUID(),
+    name,
+    format,
+    importedAt: now,
+    count: words.size,
+  };
+  const key = importKey(profileId, source.id);
+  await db.saveWords(key, words);
+  cachedWords.set(key, words);
+  await db.saveMetadata(`imports:${profileId}`, [
+    ...imports.filter(({ id }) => id !== source.id),
+    source,
+  ]);
+  cachedMatchers.delete(profileId);
+  broadcastWordsUpdated([profileId]);
+  return source;
+}
+
+async function deleteImport(profileId: string, sourceId: string) {
+  const key = importKey(profileId, sourceId);
+  await db.deleteWords(key);
+  cachedWords.delete(key);
+  const imports = await getImports(profileId);
+  await db.saveMetadata(
+    `imports:${profileId}`,
+    imports.filter(({ id }) => id !== sourceId),
+  );
+  cachedMatchers.delete(profileId);
+  broadcastWordsUpdated([profileId]);
+}
+
+// Every word set, the portable metadata and the settings
+async function createBackup(): Promise<Backup> {
+  const settings = await browser.storage.local.get(null);
+  // The API key stays on this machine
+  if (settings.ankiConnect) {
+    settings.ankiConnect = { ...settings.ankiConnect, key: "" };
+  }
+
+  const words: Backup["words"] = {};
+  for (const key of await db.getWordSetKeys()) {
+    const wordSet = cachedWords.get(key) ?? (await db.getWords(key));
+    words[key] = Array.from(wordSet?.entries() ?? []);
+  }
+  const cards: Backup["cards"] = [];
+  for (const profileId of await db.getCardProfileIds()) {
+    cards.push(...(await db.getCards(profileId)));
+  }
+  const metadata = Object.fromEntries(
+    Object.entries(await db.getAllMetadata()).filter(([key]) =>
+      isPortableMetadata(key),
+    ),
+  );
+  const exposures: Backup["exposures"] = [];
+  for (const profileId of await db.getExposureProfileIds()) {
+    exposures.push(...(await db.getExposures(profileId)));
+  }
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    settings,
+    words,
+    cards,
+    metadata,
+    exposures,
+  };
+}
+
+// Replace every word set and setting with a backup's. The file is checked
+// first, so an invalid one leaves everything as it was.
+async function restoreBackup(text: string) {
+  const backup = parseBackup(text);
+  // Syncs of this and other instances hold the sync lock, holding it keeps
+  // them from writing cards meanwhile
+  const locked =
+    !isSyncing &&
+    (await db.acquireLock(SYNC_LOCK, instanceId, SYNC_LOCK_TIMEOUT));
+  if (!locked) throw new Error("A sync is running, try again in a moment");
+
+  try {
+    await db.replaceAll(backup);
+    cachedWords.clear();
+    cachedMatchers.clear();
+
+    // Settings only change once the database has the backup. Keys the
+    // backup does not have are removed after the new ones are set, so there
+    // is no moment without settings. Keep this machine's API key unless the
+    // backup has one.
+    const { key } = await getAnkiConnectSettings();
+    const settings = { ...backup.settings };
+    if (settings.ankiConnect) {
+      const ankiConnect = settings.ankiConnect as AnkiConnectSettings;
+      settings.ankiConnect = { ...ankiConnect, key: ankiConnect.key || key };
+    }
+    const previousKeys = Object.keys(await browser.storage.local.get(null));
+    await browser.storage.local.set(settings);
+    await browser.storage.local.remove(
+      previousKeys.filter((previousKey) => !(previousKey in settings)),
+    );
+  } finally {
+    await db.releaseLock(SYNC_LOCK, instanceId);
+  }
+
+  const profiles = await getProfiles();
+  broadcastWordsUpdated(profiles.map(({ id }) => id));
+}
+
+// Create a note from selected text, unless the deck already has it
+async function addMinedNote(capture: MiningCapture): Promise<string> {
+  const profile = (await getProfiles()).find(
+    ({ id }) => id === capture.profileId,
+  );
+  if (!profile) return "No profile for this page";
+
+  const { deckName, modelName, fields, tags } = profile.mining;
+  if (!deckName || !modelName) {
+    return "Choose a deck and note type for new words in the popup";
+  }
+
+  const noteFields: Record<string, string> = {};
+  Object.entries(fields).forEach(([fieldName, value]) => {
+    if (value) noteFields[fieldName] = escapeHtml(capture[value]);
+  });
+  const note = {
+    deckName,
+    modelName,
+    fields: noteFields,
+    tags,
+    options: { allowDuplicate: false, duplicateScope: "deck" },
+  };
+
+  const [canAdd]: boolean[] = await anki.request("canAddNotes", {
+    notes: [note],
+  });
+  if (!canAdd) return `"${capture.word}" is already in ${deckName}`;
+
+  const noteId: number = await anki.request("addNote", { note });
+  const [cardId]: number[] = await anki.request("findCards", {
+    query: `nid:${noteId}`,
+  });
+
+  // Show the word as new right away instead of waiting for the next sync,
+  // which reads the card in full as its modification time is unknown
+  const words = await getProfileWords(profile.id);
+  if (!words.has(capture.word)) {
+    await storeCards(profile, [
+      {
+        profileId: profile.id,
+        cardId,
+        noteId,
+        term: capture.word,
+        modelName,
+        fields: noteFields,
+        sourceIndex: 0,
+        mod: 0,
+        stats: NEW_CARD_STATS,
+        mined: true,
+      },
+    ]);
+  }
+
+  return `Added "${capture.word}" to ${deckName}`;
+}
+
+async function mineSelection(tabId: number, frameId = 0) {
+  let capture: MiningCapture | null = null;
+  try {
+    capture = await browser.tabs.sendMessage(
+      tabId,
+      { action: "captureSelection" },
+      { frameId },
+    );
+  } catch {
+    // No content script in this tab (e.g. a browser page)
+    return;
+  }
+
+  let message = "Select a word first";
+  if (capture) {
+    try {
+      message = await addMinedNote(capture);
+    } catch (error) {
+      message = `Could not add note: ${(error as Error).message}`;
     }
+  }
+  // The status is shown in the top frame, whichever frame the word is in
+  browser.tabs.sendMessage(
+    tabId,
+    { action: "showStatus", message },
+    { frameId: 0 },
+  );
+}
+
+async function runCardAction(
+  type: "browse" | "suspend" | "relearn",
+  cardId: number,
+): Promise<string> {
+  if (type === "browse") {
+    await anki.request("guiBrowse", { query: `cid:${cardId}` });
+    return "Opened in the Anki browser";
+  }
+
+  if (type === "suspend") {
+    await anki.request("suspend", { cards: [cardId] });
+  } else {
+    await anki.request("relearnCards", { cards: [cardId] });
+  }
+  // Pick up the new card state
+  syncWithAnki();
+  return type === "suspend" ? "Card suspended" : "Card set to relearn";
+}
+
+// Grade a due card from a page, then store its new state right away so
+// every tab recolors the word without waiting for a sync
+async function answerCard(
+  profileId: string,
+  cardId: number,
+  ease: AnswerEase,
+): Promise<string> {
+  const profile = (await getProfiles()).find(({ id }) => id === profileId);
+  if (!profile) throw new Error("No profile for this page");
 
-    // Set up periodic sync every 24 hours
-    setInterval(() => {
+  // Stored due dates are estimates, Anki has the final say
+  const [due]: boolean[] = await anki.request("areDue", { cards: [cardId] });
+  if (!due) throw new Error("The card is not due yet");
+  const [answered]: boolean[] = await anki.request("answerCards", {
+    answers: [{ cardId, ease }],
+  });
+  if (!answered) throw new Error("Anki did not accept the answer");
+
+  const cardSources = await findSourceCards(profile, `cid:${cardId}`);
+  let [card] = await fetchCardRecords(profile, cardSources, [cardId]);
+  // Mined cards no source matches are read again as they are stored
+  if (!card && cardSources.size === 0) {
+    const stored = (await db.getCards(profile.id)).filter(
+      (storedCard) => storedCard.cardId === cardId,
+    );
+    [card] = await rereadCards(profile, stored);
+  }
+  if (!card) return `Answered ${ANSWER_EASES[ease]}`;
+  await storeCards(profile, [card]);
+
+  const nextDue = card.stats.due;
+  return nextDue
+    ? `Answered ${ANSWER_EASES[ease]}, next review ${new Date(nextDue).toLocaleDateString()}`
+    : `Answered ${ANSWER_EASES[ease]}`;
+}
+
+function getProfileMatcher(
+  profileId: string,
+  words: Map<string, WordData>,
+): SerializedMatcher {
+  let matcher = cachedMatchers.get(profileId);
+  if (!matcher) {
+    matcher = buildMatcher(words.keys());
+    cachedMatchers.set(profileId, matcher);
+  }
+  return matcher;
+}
+
+// Answer a content script's words request with only what the tab needs
+async function handleWordsRequest(
+  request: WordsRequest,
+): Promise<WordsResponse> {
+  if (request.version !== WORDS_PROTOCOL_VERSION) {
+    throw new Error("The extension was updated, reload the page");
+  }
+  const words = await getPageWords(request.profileId);
+  if (request.action === "getWordIndex") {
+    return buildWordIndex(getProfileMatcher(request.profileId, words), words);
+  }
+  return {
+    version: WORDS_PROTOCOL_VERSION,
+    words: request.terms
+      .filter((term) => words.has(term))
+      .map((term) => [term, words.get(term)!]),
+  };
+}
+
+export default defineBackground(() => {
+  // Initialize database and schedule syncs. Alarms outlive the service
+  // worker, so they are only set up when missing or out of date; an overdue
+  // sync then starts right away.
+  const ready = db.init().then(async () => {
+    anki.configure(await getAnkiConnectSettings());
+    const [syncAlarm, { interval }] = await Promise.all([
+      browser.alarms.get(SYNC_ALARM),
+      getSyncSettings(),
+    ]);
+    if (syncAlarm?.periodInMinutes !== interval) await scheduleSync();
+    await browser.alarms.create(RESCORE_ALARM, {
+      periodInMinutes: RESCORE_INTERVAL,
+    });
+  });
+
+  // Alarms wake the service worker, so they are listened for right away
+  browser.alarms.onAlarm.addListener(async (alarm) => {
+    await ready;
+    if (alarm.name === SYNC_ALARM) {
       syncWithAnki();
-    }, SYNC_INTERVAL);
+    } else if (alarm.name === RETRY_ALARM) {
+      retryIfReachable();
+    } else if (alarm.name === RESCORE_ALARM) {
+      rescoreWords();
+    }
   });
 
-  // Listen for requests from content script
-  browser.runtime.onMessage.addListener((message, _sender, sendResponse) => {
-    if (message.action === "getWords") {
-      // Return cached words immediately if available
-      if (cachedWords) {
-        sendResponse({ words: Array.from(cachedWords.entries()) });
-      } else {
-        // If no cache, wait for DB to load
-        db.getWords().then((words) => {
-          if (words) {
-            cachedWords = words;
-            sendResponse({ words: Array.from(words.entries()) });
-          } else {
-            // No data yet, trigger sync
-            syncWithAnki().then(() => {
-              if (cachedWords) {
-                sendResponse({ words: Array.from(cachedWords.entries()) });
-              } else {
-                sendResponse({ words: [] });
-              }
-            });
-          }
+  // Add selected text to Anki from the context menu or keyboard shortcut
+  browser.runtime.onInstalled.addListener(() => {
+    browser.contextMenus.create({
+      id: "mine-selection",
+      title: 'Add "%s" to Anki',
+      contexts: ["selection"],
+    });
+  });
+
+  browser.contextMenus.onClicked.addListener((info, tab) => {
+    if (info.menuItemId === "mine-selection" && tab?.id) {
+      mineSelection(tab.id, info.frameId);
+    }
+  });
+
+  browser.commands.onCommand.addListener(async (command, tab) => {
+    const tabId =
+      tab?.id ??
+      (await browser.tabs.query({ active: true, currentWindow: true }))[0]?.id;
+    if (!tabId) return;
+    if (command === "mine-selection") {
+      mineSelection(tabId);
+    } else if (command === "toggle-highlighting") {
+      browser.tabs
+        .sendMessage(tabId, { action: "toggleHighlighting" })
+        .catch(() => {
+          // No content script on this tab
         });
-        return true; // Keep channel open for async response
-      }
+    } else if (command in READING_COMMANDS) {
+      // Words are navigated in the top frame only
+      browser.tabs
+        .sendMessage(tabId, READING_COMMANDS[command], { frameId: 0 })
+        .catch(() => {
+          // No content script on this tab
+        });
+    }
+  });
+
+  // Apply scoring and connection changes right away
+  browser.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === "local" && changes.profiles) {
+      // Normalization may have changed the terms pages match
+      cachedMatchers.clear();
+      rescoreWords();
+    }
+    if (areaName === "local" && changes.ankiConnect) {
+      getAnkiConnectSettings().then((settings) => anki.configure(settings));
+    }
+    if (areaName === "local" && changes.sync) {
+      scheduleSync();
+      getSyncSettings().then(({ retryWhenReachable }) => {
+        if (!retryWhenReachable) browser.alarms.clear(RETRY_ALARM);
+      });
+    }
+  });
+
+  // Listen for requests from content script
+  browser.runtime.onMessage.addListener((message, sender, sendResponse) => {
+    if (message.action === "getWordIndex" || message.action === "queryWords") {
+      handleWordsRequest(message as WordsRequest)
+        .then(sendResponse)
+        .catch((error) => sendResponse({ error: String(error.message) }));
+      return true; // Keep channel open for async response
+    }
+
+    if (message.action === "getConnectionStatus") {
+      anki.checkConnection().then(sendResponse);
+      return true;
+    }
+
+    if (message.action === "getSyncHistory") {
+      db.getSyncHistory()
+        .then((history) => sendResponse({ history }))
+        .catch((error) => sendResponse({ error: String(error.message) }));
+      return true;
+    }
+
+    if (message.action === "getStorageUsage") {
+      // The estimate covers everything the extension stores, not only the
+      // database
+      Promise.all([db.countRecords(), navigator.storage.estimate()])
+        .then(([records, { usage, quota }]) =>
+          sendResponse({ records, usage, quota }),
+        )
+        .catch((error) => sendResponse({ error: String(error.message) }));
+      return true;
+    }
+
+    if (message.action === "getSyncStatus") {
+      getSyncStatus()
+        .then(sendResponse)
+        .catch((error) => sendResponse({ error: String(error.message) }));
+      return true;
     }
 
     if (message.action === "refreshWords") {
       // Force sync with Anki
-      syncWithAnki().then(() => {
-        if (cachedWords) {
-          sendResponse({
-            words: Array.from(cachedWords.entries()),
-            count: cachedWords.size,
-          });
-        } else {
-          sendResponse({ words: [], count: 0 });
-        }
+      syncWithAnki().then((reports) => {
+        let count = 0;
+        cachedWords.forEach((words) => (count += words.size));
+        sendResponse({ count, reports });
       });
       return true; // Keep channel open for async response
     }
+
+    if (message.action === "getDecksAndModels") {
+      Promise.all([anki.request("deckNames"), anki.request("modelNames")])
+        .then(([deckNames, modelNames]) =>
+          sendResponse({ deckNames, modelNames }),
+        )
+        .catch((error) => sendResponse({ error: String(error.message) }));
+      return true; // Keep channel open for async response
+    }
+
+    if (message.action === "getModelFieldNames") {
+      anki
+        .request("modelFieldNames", { modelName: message.modelName })
+        .then((fieldNames) => sendResponse({ fieldNames }))
+        .catch((error) => sendResponse({ error: String(error.message) }));
+      return true; // Keep channel open for async response
+    }
+
+    if (message.action === "cardAction") {
+      runCardAction(message.type, message.cardId)
+        .then((result) => sendResponse({ message: result }))
+        .catch((error) => sendResponse({ error: String(error.message) }));
+      return true; // Keep channel open for async response
+    }
+
+    if (message.action === "answerCard") {
+      answerCard(message.profileId, message.cardId, message.ease)
+        .then((result) => sendResponse({ message: result }))
+        .catch((error) => sendResponse({ error: String(error.message) }));
+      return true;
+    }
+
+    if (message.action === "getImports") {
+      getImports(message.profileId)
+        .then((imports) => sendResponse({ imports }))
+        .catch((error) => sendResponse({ error: String(error.message) }));
+      return true;
+    }
+
+    if (message.action === "importWords") {
+      importWords(
+        message.profileId,
+        message.name,
+        message.format,
+        message.words,
+      )
+        .then((source) => sendResponse({ source }))
+        .catch((error) => sendResponse({ error: String(error.message) }));
+      return true;
+    }
+
+    if (message.action === "deleteImport") {
+      deleteImport(message.profileId, message.sourceId)
+        .then(() => sendResponse({}))
+        .catch((error) => sendResponse({ error: String(error.message) }));
+      return true;
+    }
+
+    if (message.action === "exportBackup") {
+      createBackup()
+        .then((backup) => sendResponse({ backup }))
+        .catch((error) => sendResponse({ error: String(error.message) }));
+      return true;
+    }
+
+    if (message.action === "exportWords") {
+      getPageWords(message.profileId)
+        .then((words) => sendResponse({ words: Array.from(words.entries()) }))
+        .catch((error) => sendResponse({ error: String(error.message) }));
+      return true;
+    }
+
+    if (message.action === "restoreBackup") {
+      restoreBackup(message.text)
+        .then(() => sendResponse({}))
+        .catch((error) => sendResponse({ error: String(error.message) }));
+      return true;
+    }
+
+    if (message.action === "recordExposures") {
+      // Private windows leave no reading history
+      if (sender.tab?.incognito) {
+        sendResponse({});
+        return;
+      }
+      db.recordExposures(
+        message.profileId,
+        message.words as SeenWord[],
+        { url: message.url, title: message.title },
+        Date.now(),
+      )
+        .then(() => sendResponse({}))
+        .catch((error) => sendResponse({ error: String(error.message) }));
+      return true;
+    }
+
+    if (message.action === "getExposures") {
+      db.getExposures(message.profileId, message.terms)
+        .then((exposures) => sendResponse({ exposures }))
+        .catch((error) => sendResponse({ error: String(error.message) }));
+      return true;
+    }
+
+    if (message.action === "getExposureReport") {
+      Promise.all([
+        db.getExposures(message.profileId),
+        getPageWords(message.profileId),
+      ])
+        .then(([exposures, words]) =>
+          sendResponse({ rows: buildExposureReport(exposures, words) }),
+        )
+        .catch((error) => sendResponse({ error: String(error.message) }));
+      return true;
+    }
+
+    if (message.action === "clearExposures") {
+      db.deleteExposures(message.profileId)
+        .then(() => sendResponse({}))
+        .catch((error) => sendResponse({ error: String(error.message) }));
+      return true;
+    }
+
+    if (message.action === "getNoteTypes") {
+      fetchNoteTypes(message.query)
+        .then((noteTypes) => sendResponse({ noteTypes }))
+        .catch((error) => sendResponse({ error: String(error.message) }));
+      return true; // Keep channel open for async response
+    }
   });
 });
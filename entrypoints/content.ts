@@ -1,48 +1,241 @@
-interface WordData {
-  difficultyLevel: number;
+import {
+  createHighlighter,
+  type HighlightGroup,
+  type Highlighter,
+} from "@/components/highlighter";
+import { FocusMode } from "@/components/focus-mode";
+import { HoverCard, type CardAction } from "@/components/hover-card";
+import { WordNavigator } from "@/components/word-navigator";
+import type { Exposure, SeenWord } from "@/utils/exposure";
+import {
+  createInflectionMatcher,
+  INFLECTION_RULE_SETS,
+  type InflectedMatch,
+} from "@/utils/inflection";
+import { Matcher } from "@/utils/matcher";
+import {
+  indexedLevels,
+  sendWordsRequest,
+  WORDS_PROTOCOL_VERSION,
+  type WordIndex,
+} from "@/utils/messages";
+import {
+  createNormalizer,
+  createWordBoundaries,
+  DEFAULT_NORMALIZATION,
+  originalSpan,
+  type Normalizer,
+} from "@/utils/normalize";
+import { findShadowRoots, SHADOW_ROOT_EVENT } from "@/utils/shadow-roots";
+import {
+  countTextChars,
+  STAT_BUCKETS,
+  statBucket,
+  type PageStats,
+  type PageWordStat,
+} from "@/utils/stats";
+import {
+  DEFAULT_SCORING,
+  explainScore,
+  type ScoringSettings,
+} from "@/utils/scoring";
+import {
+  createStyler,
+  DEFAULT_DISPLAY,
+  isDarkPage,
+  type DisplaySettings,
+} from "@/utils/styles";
+import {
+  DEFAULT_COLORS,
+  getHighlighter,
+  getProfiles,
+  getSiteFilter,
+  getSiteProfiles,
+  isSiteEnabled,
+  resolveProfile,
+  type HighlighterType,
+  type ProfileColors,
+} from "@/utils/settings";
+import type { WordData, WordMatch } from "@/utils/words";
+
+// A deck word found in page text, before its data is looked up
+interface TermMatch {
+  // Position in the original text
+  index: number;
+  length: number;
+  // Key of the word, the normalized term
+  term: string;
+  // Set for conjugated forms
+  reasons?: string[];
 }
 
-function getDifficultyColor(level: number): string {
-  // level: 0 (red/hard) to 100 (green/easy)
-  // Red: rgb(255, 0, 0) -> Green: rgb(0, 255, 0)
-  const red = Math.round(255 * (1 - level / 100));
-  const green = Math.round(255 * (level / 100));
-  return `rgb(${red}, ${green}, 0)`;
+// Text nodes with content a reader sees
+function isReadableText(node: Node): boolean {
+  const parent = node.parentElement;
+  if (!parent) return false;
+  const tagName = parent.tagName;
+  // Skip script, style, textarea, input
+  return !(
+    tagName === "SCRIPT" ||
+    tagName === "STYLE" ||
+    tagName === "TEXTAREA" ||
+    tagName === "INPUT" ||
+    tagName === "NOSCRIPT"
+  );
+}
+
+const SENTENCE_END = /[。．.!?！？\n]/;
+
+// The sentence around the selection, cut at sentence punctuation within the
+// nearest block element
+function captureSentence(range: Range): string {
+  const block =
+    (range.startContainer.parentElement?.closest(
+      "p, li, td, th, dd, blockquote, h1, h2, h3, h4, h5, h6, article, section, div",
+    ) as HTMLElement | null) ??
+    document.body ??
+    document.documentElement;
+  const text = block.textContent ?? "";
+
+  const before = document.createRange();
+  before.setStart(block, 0);
+  before.setEnd(range.startContainer, range.startOffset);
+  const selectionStart = before.toString().length;
+  const selectionEnd = selectionStart + range.toString().length;
+
+  let start = selectionStart;
+  while (start > 0 && !SENTENCE_END.test(text[start - 1])) start--;
+  let end = selectionEnd;
+  while (end < text.length && !SENTENCE_END.test(text[end])) end++;
+  // Keep the closing punctuation
+  if (end < text.length && text[end] !== "\n") end++;
+
+  return text.slice(start, end).replace(/\s+/g, " ").trim();
 }
 
 export default defineContentScript({
   matches: ["<all_urls>"],
+  allFrames: true,
+  matchAboutBlank: true,
   main() {
+    const isTopFrame = window === window.top;
+    let profileId: string | null = null;
+    // Every frame loads only the word index and looks up the words it finds,
+    // instead of a copy of the whole word list each
+    let wordIndex: WordIndex | null = null;
+    // Levels from the index by word index, only read once a lookup fails
+    let indexed: Uint8Array | null = null;
     let wordsMap: Map<string, WordData> = new Map();
+    let matcher: Matcher | null = null;
+    let colors: ProfileColors = DEFAULT_COLORS;
+    let display: DisplaySettings = DEFAULT_DISPLAY;
+    let scoring: ScoringSettings = DEFAULT_SCORING;
+    let inflectionRules = "";
+    let matchInflected: ((text: string) => InflectedMatch[]) | null = null;
+    let normalizer: Normalizer = createNormalizer(DEFAULT_NORMALIZATION);
+    // Only set when matches must be whole words
+    let wordBoundaries: ((text: string) => Set<number>) | null = null;
     let isHighlighting = false;
-
-    // Create status indicator
-    const statusDiv = document.createElement("div");
-    statusDiv.id = "anki-levels-status";
-    statusDiv.style.cssText =
-      "position: fixed; top: 10px; left: 10px; background: rgba(0,0,0,0.8); color: white; padding: 8px 12px; border-radius: 4px; font-family: monospace; font-size: 12px; z-index: 999999; display: none;";
-    document.documentElement.appendChild(statusDiv);
+    let enabled = false;
+    // Bumped to abandon a highlighting pass that is still running
+    let highlightRun = 0;
+    let highlighterType: HighlighterType = "spans";
+    let highlighter: Highlighter | null = null;
+    // Open shadow roots found so far, highlighted and observed like the body
+    const shadowRoots = new Set<ShadowRoot>();
+    // Reading assist in the top frame: a focus ring moved with the keyboard
+    // and a focus mode that leaves only the hardest words highlighted
+    const wordNavigator = new WordNavigator(() => highlighter?.entries() ?? []);
+    const focusMode = new FocusMode();
+    let focusing = false;
+
+    // Create status indicator, shown by the top frame only
+    let statusDiv: HTMLDivElement | null = null;
+    if (isTopFrame) {
+      statusDiv = document.createElement("div");
+      statusDiv.id = "anki-levels-status";
+      statusDiv.style.cssText =
+        "position: fixed; top: 10px; left: 10px; background: rgba(0,0,0,0.8); color: white; padding: 8px 12px; border-radius: 4px; font-family: monospace; font-size: 12px; z-index: 999999; display: none;";
+      document.documentElement.appendChild(statusDiv);
+    }
 
     function showStatus(message: string) {
+      if (!statusDiv) return;
       statusDiv.textContent = message;
       statusDiv.style.display = "block";
     }
 
     function hideStatus() {
-      statusDiv.style.display = "none";
+      if (statusDiv) statusDiv.style.display = "none";
     }
 
-    // Request words from background script
-    const startTime = Date.now();
-    showStatus("Loading words...");
+    // Resolve the profile and settings for this page. Returns whether the site
+    // lists allow highlighting here
+    async function loadSettings(): Promise<boolean> {
+      const [profiles, siteProfiles, siteFilter, savedHighlighter] =
+        await Promise.all([
+          getProfiles(),
+          getSiteProfiles(),
+          getSiteFilter(),
+          getHighlighter(),
+        ]);
+      const profile = resolveProfile(profiles, siteProfiles, {
+        hostname: location.hostname,
+        lang: document.documentElement.lang,
+      });
+      profileId = profile?.id ?? null;
+      if (!profile) return false;
+      colors = profile.colors;
+      display = profile.display;
+      inflectionRules = profile.inflectionRules;
+      normalizer = createNormalizer(profile.normalization);
+      wordBoundaries =
+        profile.normalization.boundaries === "words"
+          ? createWordBoundaries(
+              document.documentElement.lang || profile.languages[0],
+            )
+          : null;
+      scoring = profile.scoring;
+      highlighterType = savedHighlighter;
+      return isSiteEnabled(siteFilter, location);
+    }
 
-    browser.runtime
-      .sendMessage({ action: "getWords" })
-      .then((response) => {
-        const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
-        if (response && response.words) {
-          wordsMap = new Map(response.words);
-          showStatus(`Loaded ${wordsMap.size} words (${elapsed}s)`);
+    loadSettings().then((siteEnabled) => {
+      setupHighlighter();
+      setEnabled(siteEnabled);
+    });
+
+    function setupHighlighter() {
+      // Focus mode hides the easier words like the hide level does
+      const shown = focusing
+        ? {
+            ...display,
+            hideAbove: Math.min(display.hideAbove, display.focusUpTo),
+          }
+        : display;
+      const styler = createStyler(colors, shown, isDarkPage());
+      highlighter = createHighlighter(highlighterType, styler, textRoots);
+      shadowRoots.forEach((shadowRoot) => highlighter!.addRoot(shadowRoot));
+    }
+
+    function requestIndex(): Promise<WordIndex> {
+      return sendWordsRequest({
+        action: "getWordIndex",
+        version: WORDS_PROTOCOL_VERSION,
+        profileId: profileId!,
+      });
+    }
+
+    // Request the word index from background script
+    function loadWords() {
+      const startTime = Date.now();
+      showStatus("Loading words...");
+
+      requestIndex()
+        .then((index) => {
+          const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+          applyIndex(index);
+          showStatus(`Loaded ${matcher!.size} words (${elapsed}s)`);
 
           // Wait for DOM to be ready before highlighting
           if (document.readyState === "loading") {
@@ -51,299 +244,727 @@ export default defineContentScript({
             );
           } else {
             // DOM already loaded, schedule highlighting with idle callback
-            requestIdleCallback(() => highlightWords(false), { timeout: 500 });
+            requestIdleCallback(() => highlightWords(false), {
+              timeout: 500,
+            });
           }
 
           // Hide status after 2 seconds
           setTimeout(hideStatus, 2000);
-        } else {
-          showStatus("Failed to load words");
+        })
+        .catch((error) => {
+          showStatus(`Error: ${error.message}`);
           setTimeout(hideStatus, 3000);
-        }
-      })
-      .catch((error) => {
-        showStatus(`Error: ${error.message}`);
-        setTimeout(hideStatus, 3000);
+        });
+    }
+
+    function setEnabled(value: boolean) {
+      if (value === enabled || (value && !profileId)) return;
+      enabled = value;
+      if (!enabled) {
+        focusing = false;
+        focusMode.clear();
+        wordNavigator.clear();
+        removeHighlights();
+      } else if (matcher) {
+        highlightWords(false);
+      } else {
+        loadWords();
+      }
+    }
+
+    // Leave the page as it was before highlighting. A refresh keeps the hover
+    // card open, e.g. with the result of grading its card
+    function removeHighlights(hideHoverCard = true) {
+      highlightRun++;
+      isHighlighting = false;
+      if (hideHoverCard) hoverCard.scheduleHide(0);
+      hovered = null;
+      highlighter?.clear();
+      pageStats = null;
+    }
+
+    // Words found before are looked up again, their data may have changed
+    function applyIndex(index: WordIndex) {
+      wordIndex = index;
+      indexed = null;
+      wordsMap = new Map();
+      matcher = new Matcher(index.matcher);
+      const ruleSet = INFLECTION_RULE_SETS[inflectionRules];
+      matchInflected = ruleSet
+        ? createInflectionMatcher(matcher, ruleSet)
+        : null;
+    }
+
+    // Remember shadow roots under a node and watch them for changes
+    function discoverShadowRoots(root: Node) {
+      findShadowRoots(root).forEach((shadowRoot) => {
+        if (shadowRoots.has(shadowRoot)) return;
+        shadowRoots.add(shadowRoot);
+        highlighter?.addRoot(shadowRoot);
+        focusMode.addRoot(shadowRoot);
+        observer.observe(shadowRoot, { childList: true, subtree: true });
       });
+    }
 
-    function highlightWords(skipCheck: boolean = true) {
-      if (isHighlighting || wordsMap.size === 0) return;
-      if (!skipCheck) isHighlighting = true;
+    // The body and every open shadow root still on the page
+    function textRoots(): Node[] {
+      const body = document.body;
+      if (body) discoverShadowRoots(body);
+      shadowRoots.forEach((shadowRoot) => {
+        if (!shadowRoot.host.isConnected) shadowRoots.delete(shadowRoot);
+      });
+      return body ? [body, ...shadowRoots] : [...shadowRoots];
+    }
+
+    // Every deck word in a text, exact and conjugated, overlaps included.
+    // The text is folded like the terms were, positions point into the
+    // original text.
+    function findTerms(activeMatcher: Matcher, text: string): TermMatch[] {
+      const normalized = normalizer.changesText ? normalizer.text(text) : null;
+      const searched = normalized?.text ?? text;
+      const found: TermMatch[] = [];
+      activeMatcher
+        .findAll(searched)
+        .forEach(({ index, length, word }) =>
+          found.push({ index, length, term: word }),
+        );
+      matchInflected?.(searched).forEach(({ index, length, lemma, reasons }) =>
+        found.push({ index, length, term: lemma, reasons }),
+      );
+      if (normalized) {
+        found.forEach((match) =>
+          Object.assign(
+            match,
+            originalSpan(normalized, match.index, match.length),
+          ),
+        );
+      }
+      if (!wordBoundaries || found.length === 0) return found;
 
-      // Sort words by length (longest first) for better matching
-      const sortedWords = Array.from(wordsMap.entries()).sort(
-        (a, b) => b[0].length - a[0].length,
+      const boundaries = wordBoundaries(text);
+      return found.filter(
+        ({ index, length }) =>
+          boundaries.has(index) && boundaries.has(index + length),
       );
+    }
+
+    // Fetch data for the found terms that this frame has not seen yet. When
+    // the background does not answer, they get their level from the index
+    // until the next refresh.
+    async function lookupWords(terms: string[]) {
+      const missing = new Set(terms.filter((term) => !wordsMap.has(term)));
+      if (missing.size === 0) return;
+
+      try {
+        const { words } = await sendWordsRequest({
+          action: "queryWords",
+          version: WORDS_PROTOCOL_VERSION,
+          profileId: profileId!,
+          terms: Array.from(missing),
+        });
+        words.forEach(([word, data]) => wordsMap.set(word, data));
+      } catch (error) {
+        console.warn("Could not look up words, showing levels only:", error);
+        indexed ??= indexedLevels(wordIndex!);
+        missing.forEach((term) => {
+          const index = matcher!.indexOf(term);
+          if (index >= 0)
+            wordsMap.set(term, { difficultyLevel: indexed![index] });
+        });
+      }
+    }
+
+    // Redraw in place with fresh settings and words, e.g. after a sync or a
+    // word added from any tab. Settings changes also re-apply the site lists,
+    // word updates keep highlighting on or off as it is in this tab
+    async function refresh(applySiteFilter: boolean) {
+      const siteEnabled = await loadSettings();
+      const shouldEnable =
+        !!profileId && (applySiteFilter ? siteEnabled : enabled);
+      if (!shouldEnable) {
+        setEnabled(false);
+        return;
+      }
+      enabled = true;
+
+      let index: WordIndex;
+      try {
+        index = await requestIndex();
+      } catch {
+        // Keep the current highlights
+        return;
+      }
+      applyIndex(index);
+      redraw();
+    }
+
+    // Highlight the page again in place with the current styles
+    function redraw() {
+      const { scrollX, scrollY } = window;
+      removeHighlights(false);
+      setupHighlighter();
+      // Removing the old highlights may have moved the content
+      window.scrollTo(scrollX, scrollY);
+      highlightWords(false);
+    }
+
+    let refreshTimeout: number | null = null;
+    let refreshSiteFilter = false;
+
+    // Settings are saved in several steps and a sync follows, so wait for
+    // them to settle
+    function scheduleRefresh(applySiteFilter: boolean) {
+      refreshSiteFilter ||= applySiteFilter;
+      if (refreshTimeout !== null) clearTimeout(refreshTimeout);
+      refreshTimeout = setTimeout(() => {
+        refreshTimeout = null;
+        const siteFilterChanged = refreshSiteFilter;
+        refreshSiteFilter = false;
+        refresh(siteFilterChanged);
+      }, 300) as unknown as number;
+    }
+
+    function highlightWords(skipCheck: boolean = true) {
+      if (!enabled || isHighlighting || !highlighter || !matcher?.size) return;
+      if (!skipCheck) isHighlighting = true;
+      const activeMatcher = matcher;
+      const activeHighlighter = highlighter;
+      const run = highlightRun;
 
-      const walker = document.createTreeWalker(
-        document.body,
-        NodeFilter.SHOW_TEXT,
-        {
+      const textNodes: Text[] = [];
+      textRoots().forEach((root) => {
+        const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
           acceptNode: (node) => {
-            const parent = node.parentElement;
-            if (!parent) return NodeFilter.FILTER_REJECT;
-            const tagName = parent.tagName;
-            // Skip script, style, textarea, input, and already highlighted nodes
+            // Skip already highlighted nodes
             if (
-              tagName === "SCRIPT" ||
-              tagName === "STYLE" ||
-              tagName === "TEXTAREA" ||
-              tagName === "INPUT" ||
-              tagName === "NOSCRIPT"
+              !isReadableText(node) ||
+              activeHighlighter.isHighlighted(node as Text)
             ) {
               return NodeFilter.FILTER_REJECT;
             }
-            if (parent.classList.contains("anki-highlight")) {
-              return NodeFilter.FILTER_REJECT;
-            }
             return NodeFilter.FILTER_ACCEPT;
           },
-        },
-      );
-
-      const textNodes: Text[] = [];
-      let node;
-      while ((node = walker.nextNode())) {
-        textNodes.push(node as Text);
-      }
+        });
+        let node;
+        while ((node = walker.nextNode())) {
+          textNodes.push(node as Text);
+        }
+      });
 
       // Process in smaller batches with idle callbacks to avoid blocking
       let processed = 0;
       const batchSize = 50;
 
+      // Words of a batch are found once, looked up, then highlighted
       function processBatch() {
+        if (run !== highlightRun) return;
         const end = Math.min(processed + batchSize, textNodes.length);
         const deadline = performance.now() + 8; // Max 8ms per batch
 
-        for (let i = processed; i < end; i++) {
-          // Check if we're running out of time
-          if (performance.now() >= deadline) {
-            break;
-          }
-
-          const textNode = textNodes[i];
+        const found: { textNode: Text; text: string; terms: TermMatch[] }[] =
+          [];
+        let i = processed;
+        // At least one node per batch, so highlighting always moves on
+        while (i < end && (i === processed || performance.now() < deadline)) {
+          const textNode = textNodes[i++];
           const text = textNode.textContent || "";
           if (!text.trim()) continue;
+          const terms = findTerms(activeMatcher, text);
+          if (terms.length > 0) found.push({ textNode, text, terms });
+        }
+        processed = i;
+
+        lookupWords(found.flatMap(({ terms }) => terms.map(({ term }) => term)))
+          .then(() => {
+            if (run !== highlightRun) return;
+            found.forEach(({ textNode, text, terms }) => {
+              // The page may have changed the text meanwhile
+              if (textNode.textContent !== text) return;
+              const groups = groupMatches(text, terms);
+              if (groups.length > 0) {
+                activeHighlighter.highlight(textNode, groups);
+              }
+            });
+            scheduleBatch();
+          })
+          .catch(() => {
+            isHighlighting = false;
+          });
+      }
 
-          const matches: {
-            index: number;
-            length: number;
-            data: WordData;
-            word: string;
-          }[] = [];
-
-          // Only search for words that could potentially match
-          for (const [word, data] of sortedWords) {
-            // Quick check: if word isn't in text, skip
-            if (!text.includes(word)) continue;
-            let index = text.indexOf(word);
-            while (index !== -1) {
-              matches.push({ index, length: word.length, data, word });
-              index = text.indexOf(word, index + 1);
-            }
+      function scheduleBatch() {
+        if (processed < textNodes.length) {
+          // Use requestIdleCallback for better performance
+          if (typeof requestIdleCallback !== "undefined") {
+            requestIdleCallback(processBatch, { timeout: 1000 });
+          } else {
+            requestAnimationFrame(processBatch);
           }
+        } else {
+          isHighlighting = false;
+          if (focusing) dimPage();
+          schedulePageStats();
+          scheduleExposures();
+        }
+      }
 
-          if (matches.length === 0) continue;
+      processBatch();
+    }
 
-          // Sort by position (longest first at same position)
-          matches.sort((a, b) => {
-            if (a.index !== b.index) return a.index - b.index;
-            return b.length - a.length;
-          });
+    // The found terms of a text that are deck words, overlapping ones grouped
+    // under the first, longest one. Text that differs from the term,
+    // conjugated or folded, keeps the term as its lemma
+    function groupMatches(text: string, terms: TermMatch[]): HighlightGroup[] {
+      const matches: WordMatch[] = [];
+      terms.forEach(({ index, length, term, reasons }) => {
+        const data = wordsMap.get(term);
+        if (!data) return;
+        const word = text.slice(index, index + length);
+        matches.push(
+          word === term
+            ? { index, length, data, word }
+            : { index, length, data, word, lemma: term, reasons },
+        );
+      });
 
-          // Group overlapping matches and keep longest for display
-          const finalMatches: Array<{
-            index: number;
-            length: number;
-            data: WordData;
-            word: string;
-            overlapping: typeof matches;
-          }> = [];
-          for (const match of matches) {
-            const existingGroup = finalMatches.find(
-              (existing) =>
-                (match.index >= existing.index &&
-                  match.index < existing.index + existing.length) ||
-                (match.index + match.length > existing.index &&
-                  match.index < existing.index),
-            );
+      // Sort by position (longest first at same position)
+      matches.sort((a, b) => {
+        if (a.index !== b.index) return a.index - b.index;
+        return b.length - a.length;
+      });
 
-            if (existingGroup) {
-              // Add to overlapping group
-              existingGroup.overlapping.push(match);
-            } else {
-              // Create new group
-              finalMatches.push({ ...match, overlapping: [match] });
-            }
-          }
+      // Group overlapping matches and keep longest for display
+      const groups: HighlightGroup[] = [];
+      for (const match of matches) {
+        const existingGroup = groups.find(
+          (existing) =>
+            (match.index >= existing.index &&
+              match.index < existing.index + existing.length) ||
+            (match.index + match.length > existing.index &&
+              match.index < existing.index),
+        );
+
+        if (existingGroup) {
+          // Add to overlapping group
+          existingGroup.overlapping.push(match);
+        } else {
+          // Create new group
+          groups.push({ ...match, overlapping: [match] });
+        }
+      }
+      return groups;
+    }
 
-          if (finalMatches.length === 0) continue;
+    let pageStats: PageStats | null = null;
+    let statsTimeout: number | null = null;
 
-          // Build replacement fragment
-          const fragment = document.createDocumentFragment();
-          let lastIndex = 0;
+    // Recompute once highlighting settles, e.g. after a burst of mutations
+    function schedulePageStats() {
+      if (statsTimeout !== null) clearTimeout(statsTimeout);
+      statsTimeout = setTimeout(() => {
+        statsTimeout = null;
+        pageStats = computePageStats();
+      }, 500) as unknown as number;
+    }
 
-          for (const match of finalMatches) {
-            // Add text before match
-            if (match.index > lastIndex) {
-              fragment.appendChild(
-                document.createTextNode(text.substring(lastIndex, match.index)),
-              );
-            }
+    // Every text node a reader sees, highlighted or not
+    function readableTextNodes(): Text[] {
+      const textNodes: Text[] = [];
+      textRoots().forEach((root) => {
+        const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+          acceptNode: (node) =>
+            isReadableText(node)
+              ? NodeFilter.FILTER_ACCEPT
+              : NodeFilter.FILTER_REJECT,
+        });
+        let node;
+        while ((node = walker.nextNode())) {
+          textNodes.push(node as Text);
+        }
+      });
+      return textNodes;
+    }
 
-            // Add highlighted span
-            const span = document.createElement("span");
-            span.className = "anki-highlight";
-            span.style.setProperty("position", "relative", "important");
-            span.style.setProperty("display", "inline", "important");
-            // span.style.setProperty("cursor", "pointer", "important");
-            span.style.setProperty(
-              "transition",
-              "background-color 0.2s",
-              "important",
-            );
-            span.style.setProperty("margin", "0", "important");
-            span.style.setProperty("padding", "0", "important");
-            span.style.setProperty("margin-right", "1px", "important"); // Small gap between adjacent highlights
-            // Prevent font size inheritance issues
-            span.style.setProperty("font-size", "inherit", "important");
-            span.style.setProperty("font-family", "inherit", "important");
-            span.style.setProperty("font-weight", "inherit", "important");
-            span.style.setProperty("line-height", "inherit", "important");
-
-            // Use the primary match color for background
-            const primaryColor = getDifficultyColor(
-              match.overlapping[0].data.difficultyLevel,
-            );
-            span.style.setProperty(
-              "background-color",
-              `${primaryColor}33`,
-              "important",
-            );
+    function computePageStats(): PageStats {
+      // Only called once a profile is resolved
+      let totalChars = 0;
+      readableTextNodes().forEach((node) => {
+        totalChars += countTextChars(node.textContent ?? "");
+      });
 
-            // Add text content
-            span.textContent = match.word;
-
-            // Assign vertical levels to overlapping matches
-            // Non-overlapping matches should get the same level
-            const levels: number[] = [];
-            match.overlapping.forEach((m, idx) => {
-              let level = 0;
-              // Find the lowest level where this match doesn't overlap with any existing match at that level
-              while (true) {
-                let hasOverlap = false;
-                for (let i = 0; i < idx; i++) {
-                  if (levels[i] === level) {
-                    const other = match.overlapping[i];
-                    // Check if they overlap
-                    const mEnd = m.index + m.word.length;
-                    const otherEnd = other.index + other.word.length;
-                    if (!(mEnd <= other.index || m.index >= otherEnd)) {
-                      hasOverlap = true;
-                      break;
-                    }
-                  }
-                }
-                if (!hasOverlap) {
-                  levels[idx] = level;
-                  break;
-                }
-                level++;
-              }
+      let matchedTokens = 0;
+      let coveredChars = 0;
+      let knownChars = 0;
+      const words = new Map<string, PageWordStat>();
+      highlighter?.entries().forEach(({ text, matches }) => {
+        // The highlighted text counts as known as well as its primary match
+        const highlightChars = countTextChars(text);
+        coveredChars += highlightChars;
+        knownChars += (highlightChars * matches[0].data.difficultyLevel) / 100;
+
+        matches.forEach((match) => {
+          matchedTokens++;
+          const term = match.lemma ?? match.word;
+          const stat = words.get(term);
+          if (stat) {
+            stat.count++;
+          } else {
+            words.set(term, {
+              term,
+              reading: match.data.reading,
+              difficultyLevel: match.data.difficultyLevel,
+              count: 1,
             });
+          }
+        });
+      });
 
-            // Create stacked underlines as child elements, each matching their word's length
-            match.overlapping.forEach((m, idx) => {
-              const color = getDifficultyColor(m.data.difficultyLevel);
-              const level = levels[idx];
-              const offset = `calc(-1 * (1px + ${level * 2}px))`; // Stack with minimum 3px separation per level
-
-              // Calculate position and width based on where this match starts within the main match
-              const relativeStart = m.index - match.index;
-              const matchLength = m.word.length;
-              const totalLength = match.word.length;
-
-              // Calculate percentage positions with a small gap
-              const leftPercent = (relativeStart / totalLength) * 100;
-              const widthPercent = (matchLength / totalLength) * 100;
-
-              // Add small gap (2% of total width) between adjacent underlines
-              const gapPercent = 2;
-
-              const underline = document.createElement("span");
-              underline.style.setProperty("display", "block", "important");
-              underline.style.setProperty("position", "absolute", "important");
-              underline.style.setProperty(
-                "left",
-                `${leftPercent}%`,
-                "important",
-              );
-              underline.style.setProperty(
-                "width",
-                `calc(${widthPercent}% - ${gapPercent}%)`,
-                "important",
-              );
-              underline.style.setProperty("bottom", `${offset}`, "important");
-              underline.style.setProperty("height", "1.5px", "important");
-              underline.style.setProperty(
-                "background-color",
-                color,
-                "important",
-              );
-              underline.style.setProperty(
-                "pointer-events",
-                "none",
-                "important",
-              );
-              underline.style.setProperty("margin", "0", "important");
-              underline.style.setProperty("padding", "0", "important");
-
-              span.appendChild(underline);
-            });
+      const buckets = STAT_BUCKETS.map(() => 0);
+      words.forEach(
+        ({ difficultyLevel }) => buckets[statBucket(difficultyLevel)]++,
+      );
 
-            // Build tooltip with all overlapping matches
-            if (match.overlapping.length > 1) {
-              const tooltipLines = match.overlapping
-                .map(
-                  (m) => `${m.word} (${Math.round(m.data.difficultyLevel)}%)`,
-                )
-                .join("\n");
-              span.title = `Multiple matches:\n${tooltipLines}`;
-            } else {
-              span.title = `${match.word} (${Math.round(match.data.difficultyLevel)}%)`;
-            }
+      return {
+        url: location.href,
+        profileId: profileId!,
+        totalChars,
+        matchedTokens,
+        uniqueWords: words.size,
+        buckets,
+        coverage: totalChars ? (coveredChars / totalChars) * 100 : 0,
+        comprehension: totalChars ? (knownChars / totalChars) * 100 : 0,
+        words: Array.from(words.values()).sort(
+          (a, b) => a.difficultyLevel - b.difficultyLevel,
+        ),
+      };
+    }
 
-            fragment.appendChild(span);
-            lastIndex = match.index + match.length;
-          }
+    // Terms reported as seen during this page visit
+    let reportedTerms = new Set<string>();
+    let visitedPage = "";
+    let exposureTimeout: number | null = null;
+
+    // Report once the page has been on screen for a moment, e.g. after
+    // highlighting or scrolling settles
+    function scheduleExposures() {
+      if (exposureTimeout !== null) clearTimeout(exposureTimeout);
+      exposureTimeout = setTimeout(() => {
+        exposureTimeout = null;
+        reportExposures();
+      }, 1000) as unknown as number;
+    }
 
-          // Add remaining text
-          if (lastIndex < text.length) {
-            fragment.appendChild(
-              document.createTextNode(text.substring(lastIndex)),
-            );
-          }
+    function isOnScreen(range: Range): boolean {
+      return Array.from(range.getClientRects()).some(
+        (rect) =>
+          rect.width > 0 &&
+          rect.bottom > 0 &&
+          rect.right > 0 &&
+          rect.top < window.innerHeight &&
+          rect.left < window.innerWidth,
+      );
+    }
+
+    // Deck words that were actually on screen, each once per page visit
+    function reportExposures() {
+      if (!enabled || !highlighter || document.visibilityState !== "visible") {
+        return;
+      }
+      // Pages that navigate without reloading start a new visit
+      const page = location.origin + location.pathname + location.search;
+      if (page !== visitedPage) {
+        visitedPage = page;
+        reportedTerms = new Set();
+      }
+
+      const seen: SeenWord[] = [];
+      highlighter.entries().forEach(({ matches, range }) => {
+        const terms = matches
+          .map((match) => match.lemma ?? match.word)
+          .filter((term) => !reportedTerms.has(term));
+        if (terms.length === 0 || !isOnScreen(range)) return;
+        const sentence = captureSentence(range);
+        terms.forEach((term) => {
+          if (reportedTerms.has(term)) return;
+          reportedTerms.add(term);
+          seen.push({ term, sentence });
+        });
+      });
+      if (seen.length === 0) return;
+
+      browser.runtime
+        .sendMessage({
+          action: "recordExposures",
+          profileId,
+          url: location.href,
+          title: document.title,
+          words: seen,
+        })
+        .catch((error) => console.error("Could not record exposures:", error));
+    }
+
+    document.addEventListener(
+      "scroll",
+      () => {
+        if (enabled) scheduleExposures();
+      },
+      { capture: true, passive: true },
+    );
+    document.addEventListener("visibilitychange", () => {
+      if (enabled) scheduleExposures();
+    });
 
-          textNode.parentNode?.replaceChild(fragment, textNode);
+    function flashStatus(message: string) {
+      showStatus(message);
+      setTimeout(hideStatus, 2000);
+    }
+
+    // Dim the text around the words focus mode keeps highlighted
+    function dimPage() {
+      const kept = (highlighter?.entries() ?? [])
+        .filter(({ hidden }) => !hidden)
+        .map(({ range }) => range);
+      focusMode.apply(readableTextNodes(), kept);
+    }
+
+    function focusWord(direction: 1 | -1) {
+      if (!enabled) {
+        flashStatus("Highlighting is off");
+        return;
+      }
+      const entry = wordNavigator.move(direction, display.navigateUpTo);
+      if (!entry) {
+        flashStatus(
+          direction === 1 ? "No more words below" : "No more words above",
+        );
+        return;
+      }
+      // A card left open belongs to the word before
+      hoverCard.scheduleHide(0);
+    }
+
+    function showFocusedDetails() {
+      const entry =
+        wordNavigator.focused ??
+        (enabled ? wordNavigator.move(1, display.navigateUpTo) : null);
+      if (!entry) {
+        flashStatus("No highlighted word to show");
+        return;
+      }
+      if (hoverTimeout !== null) {
+        clearTimeout(hoverTimeout);
+        hoverTimeout = null;
+      }
+      hovered = null;
+      showDetails(
+        entry.range.getBoundingClientRect(),
+        entry.matches,
+        () => wordNavigator.focused === entry,
+      );
+    }
+
+    function toggleFocusMode() {
+      if (!enabled) {
+        flashStatus("Highlighting is off");
+        return;
+      }
+      focusing = !focusing;
+      if (!focusing) focusMode.clear();
+      redraw();
+      flashStatus(
+        focusing
+          ? `Focus mode: words up to level ${display.focusUpTo}`
+          : "Focus mode off",
+      );
+    }
+
+    browser.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+      if (message.action === "captureSelection") {
+        // Selected text with its context, for creating a note
+        const selection = window.getSelection();
+        const word = selection?.toString().trim() ?? "";
+        if (!selection || !word || !profileId) {
+          sendResponse(null);
+          return;
         }
+        sendResponse({
+          profileId,
+          word,
+          sentence: captureSentence(selection.getRangeAt(0)),
+          title: document.title,
+          url: location.href,
+        });
+      }
 
-        processed = end;
+      if (message.action === "getPageStats") {
+        sendResponse(enabled ? (pageStats ?? computePageStats()) : null);
+      }
 
-        if (processed < textNodes.length) {
-          // Use requestIdleCallback for better performance
-          if (typeof requestIdleCallback !== "undefined") {
-            requestIdleCallback(processBatch, { timeout: 1000 });
-          } else {
-            requestAnimationFrame(processBatch);
-          }
-        } else {
-          isHighlighting = false;
+      if (message.action === "toggleHighlighting") {
+        setEnabled(!enabled);
+        if (profileId) {
+          showStatus(enabled ? "Highlighting on" : "Highlighting off");
+          setTimeout(hideStatus, 2000);
         }
       }
 
-      processBatch();
+      if (message.action === "focusWord") {
+        focusWord(message.direction);
+      }
+
+      if (message.action === "showWordDetails") {
+        showFocusedDetails();
+      }
+
+      if (message.action === "toggleFocusMode") {
+        toggleFocusMode();
+      }
+
+      if (
+        message.action === "wordsUpdated" &&
+        profileId &&
+        message.profileIds.includes(profileId)
+      ) {
+        scheduleRefresh(false);
+      }
+
+      if (message.action === "showStatus") {
+        showStatus(message.message);
+        setTimeout(hideStatus, 3000);
+      }
+    });
+
+    // Hover card with the note behind a highlighted word
+    const hoverCard = new HoverCard(
+      async (action, cardId) => {
+        try {
+          const response = await browser.runtime.sendMessage({
+            action: "cardAction",
+            type: action satisfies CardAction,
+            cardId,
+          });
+          return response?.error ?? response?.message ?? "";
+        } catch (error) {
+          return `Error: ${(error as Error).message}`;
+        }
+      },
+      // The background stores the new card state and every tab recolors
+      // the word
+      async (cardId, ease) => {
+        try {
+          const response = await browser.runtime.sendMessage({
+            action: "answerCard",
+            profileId,
+            cardId,
+            ease,
+          });
+          return response?.error
+            ? { answered: false, message: response.error }
+            : { answered: true, message: response?.message ?? "" };
+        } catch (error) {
+          return {
+            answered: false,
+            message: `Error: ${(error as Error).message}`,
+          };
+        }
+      },
+    );
+    let hoverTimeout: number | null = null;
+
+    // The highlight under the pointer, checked once per frame
+    let hovered: object | null = null;
+    let pointerEvent: MouseEvent | null = null;
+
+    function updateHover() {
+      const event = pointerEvent!;
+      pointerEvent = null;
+      // Keep the card open while the pointer is over it
+      if (hoverCard.contains(event.target as Node)) return;
+
+      const hit = highlighter?.hitTest(event) ?? null;
+      if (hit?.key === hovered) return;
+      hovered = hit?.key ?? null;
+
+      if (hoverTimeout !== null) {
+        clearTimeout(hoverTimeout);
+        hoverTimeout = null;
+      }
+      if (!hit) {
+        hoverCard.scheduleHide();
+        return;
+      }
+
+      hoverTimeout = setTimeout(() => {
+        hoverTimeout = null;
+        // The pointer may have moved on meanwhile
+        showDetails(hit.rect, hit.matches, () => hovered === hit.key);
+      }, 150) as unknown as number;
     }
 
+    // Open the hover card for a word unless it is no longer current once its
+    // exposures are in
+    async function showDetails(
+      anchor: DOMRect,
+      matches: WordMatch[],
+      isCurrent: () => boolean,
+    ) {
+      const exposures = await getExposures(
+        matches.map((match) => match.lemma ?? match.word),
+      );
+      if (!isCurrent()) return;
+      const now = Date.now();
+      hoverCard.show(
+        anchor,
+        matches.map((match) => ({
+          ...match,
+          breakdown: match.data.stats
+            ? explainScore(match.data.stats, scoring, now)
+            : [],
+          exposure: exposures.get(match.lemma ?? match.word),
+        })),
+      );
+    }
+
+    // Exposures of the hovered words, the card shows without them on errors
+    async function getExposures(
+      terms: string[],
+    ): Promise<Map<string, Exposure>> {
+      try {
+        const response = await browser.runtime.sendMessage({
+          action: "getExposures",
+          profileId,
+          terms,
+        });
+        return new Map(
+          ((response?.exposures as Exposure[] | undefined) ?? []).map(
+            (exposure) => [exposure.term, exposure],
+          ),
+        );
+      } catch {
+        return new Map();
+      }
+    }
+
+    document.addEventListener("mousemove", (event) => {
+      if (pointerEvent === null) requestAnimationFrame(updateHover);
+      pointerEvent = event;
+    });
+
+    // Follow settings saved in the popup: profiles, site lists and switch,
+    // highlight style
+    browser.storage.onChanged.addListener((changes, areaName) => {
+      if (
+        areaName === "local" &&
+        (changes.profiles ||
+          changes.siteProfiles ||
+          changes.siteFilter ||
+          changes.highlighter)
+      ) {
+        scheduleRefresh(true);
+      }
+    });
+
     // Debounce helper
     let mutationTimeout: number | null = null;
 
@@ -358,21 +979,36 @@ export default defineContentScript({
         });
       });
 
-      if (shouldHighlight && !isHighlighting) {
-        // Debounce to avoid excessive re-highlighting
-        if (mutationTimeout !== null) {
-          clearTimeout(mutationTimeout);
-        }
-        mutationTimeout = setTimeout(() => {
-          highlightWords(true);
-          mutationTimeout = null;
-        }, 300) as unknown as number;
-      }
+      if (shouldHighlight) scheduleHighlight();
     });
 
-    observer.observe(document.body, {
-      childList: true,
-      subtree: true,
+    function scheduleHighlight() {
+      if (!enabled || isHighlighting) return;
+      // Debounce to avoid excessive re-highlighting
+      if (mutationTimeout !== null) {
+        clearTimeout(mutationTimeout);
+      }
+      mutationTimeout = setTimeout(() => {
+        highlightWords(true);
+        mutationTimeout = null;
+      }, 300) as unknown as number;
+    }
+
+    // Framesets and XML documents have no body
+    if (document.body) {
+      observer.observe(document.body, {
+        childList: true,
+        subtree: true,
+      });
+    }
+
+    // Shadow roots attached after their host was added, reported by the page
+    // world hook in shadow-roots.content.ts
+    document.addEventListener(SHADOW_ROOT_EVENT, (event) => {
+      const host = event.composedPath()[0] as Element;
+      if (!host.shadowRoot) return;
+      discoverShadowRoots(host);
+      scheduleHighlight();
     });
   },
 });
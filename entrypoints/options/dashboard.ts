@@ -0,0 +1,330 @@
+import type { SyncReport } from "@/utils/db";
+import { cardState, type CardState } from "@/utils/scoring";
+import type { Profile } from "@/utils/settings";
+import { STAT_BUCKETS, statBucket } from "@/utils/stats";
+import { paletteColor } from "@/utils/styles";
+import type { WordData } from "@/utils/words";
+
+// Card states as the dashboard counts them. Suspended cards are apart from
+// their state, words without card statistics have none.
+type DashboardState = CardState | "suspended" | "none";
+
+const STATE_LABELS: Record<DashboardState, string> = {
+  new: "New",
+  learning: "Learning",
+  young: "Young",
+  mature: "Mature",
+  suspended: "Suspended",
+  none: "No card",
+};
+
+interface DashboardWord {
+  term: string;
+  reading?: string;
+  meaning?: string;
+  difficultyLevel: number;
+  state: DashboardState;
+  interval?: number;
+  lapses?: number;
+  due?: number;
+}
+
+type WordSortKey = Exclude<keyof DashboardWord, "reading">;
+
+const HISTOGRAM_BINS = 10;
+// Rows shown in the word list, the search narrows it down
+const WORD_ROW_LIMIT = 200;
+
+const dashboardProfileSelect = document.getElementById(
+  "dashboardProfile",
+) as HTMLSelectElement;
+const dashboardSummaryDiv = document.getElementById(
+  "dashboardSummary",
+) as HTMLDivElement;
+const levelHistogramDiv = document.getElementById(
+  "levelHistogram",
+) as HTMLDivElement;
+const cardStatesDiv = document.getElementById("cardStates") as HTMLDivElement;
+const wordSearchInput = document.getElementById(
+  "wordSearch",
+) as HTMLInputElement;
+const wordStateFilterSelect = document.getElementById(
+  "wordStateFilter",
+) as HTMLSelectElement;
+const wordLevelFilterSelect = document.getElementById(
+  "wordLevelFilter",
+) as HTMLSelectElement;
+const dashboardWordsBody = document.getElementById(
+  "dashboardWords",
+) as HTMLTableSectionElement;
+const dashboardWordCountDiv = document.getElementById(
+  "dashboardWordCount",
+) as HTMLDivElement;
+const syncHistoryBody = document.getElementById(
+  "syncHistory",
+) as HTMLTableSectionElement;
+const storageUsageDiv = document.getElementById(
+  "storageUsage",
+) as HTMLDivElement;
+
+let profiles: Profile[] = [];
+let words: DashboardWord[] = [];
+let wordSort: { key: WordSortKey; ascending: boolean } = {
+  key: "difficultyLevel",
+  ascending: true,
+};
+
+Object.entries(STATE_LABELS).forEach(([state, label]) =>
+  wordStateFilterSelect.appendChild(new Option(label, state)),
+);
+STAT_BUCKETS.forEach(({ label }, index) =>
+  wordLevelFilterSelect.appendChild(new Option(label, String(index))),
+);
+
+function dashboardState(data: WordData, profile: Profile): DashboardState {
+  if (!data.stats) return "none";
+  if (data.stats.queue === -1) return "suspended";
+  return cardState(data.stats, profile.scoring.cardState.matureInterval);
+}
+
+function toDashboardWord(
+  [term, data]: [string, WordData],
+  profile: Profile,
+): DashboardWord {
+  return {
+    term: data.term ?? term,
+    reading: data.reading,
+    meaning: data.meaning,
+    difficultyLevel: data.difficultyLevel,
+    state: dashboardState(data, profile),
+    interval: data.stats?.interval,
+    lapses: data.stats?.lapses,
+    due: data.stats?.due,
+  };
+}
+
+function renderHistogram(profile: Profile) {
+  const counts = new Array<number>(HISTOGRAM_BINS).fill(0);
+  words.forEach(({ difficultyLevel }) => {
+    const bin = Math.min(
+      HISTOGRAM_BINS - 1,
+      Math.floor((difficultyLevel / 100) * HISTOGRAM_BINS),
+    );
+    counts[Math.max(0, bin)]++;
+  });
+  const highest = Math.max(1, ...counts);
+
+  levelHistogramDiv.innerHTML = "";
+  counts.forEach((count, bin) => {
+    const bar = document.createElement("div");
+    bar.style.height = `${(count / highest) * 100}%`;
+    bar.style.background = paletteColor(
+      profile.display.palette,
+      profile.colors,
+      bin / (HISTOGRAM_BINS - 1),
+    );
+    const from = (bin * 100) / HISTOGRAM_BINS;
+    bar.title = `${from}–${from + 100 / HISTOGRAM_BINS}: ${count}`;
+    levelHistogramDiv.appendChild(bar);
+  });
+}
+
+function renderCardStates() {
+  const counts = new Map<DashboardState, number>();
+  words.forEach(({ state }) => counts.set(state, (counts.get(state) ?? 0) + 1));
+
+  cardStatesDiv.innerHTML = "";
+  Object.entries(STATE_LABELS).forEach(([state, label]) => {
+    const count = counts.get(state as DashboardState);
+    if (!count) return;
+    const item = document.createElement("span");
+    const value = document.createElement("strong");
+    value.textContent = `${count}`;
+    item.append(value, label);
+    cardStatesDiv.appendChild(item);
+  });
+}
+
+function compareWords(a: DashboardWord, b: DashboardWord): number {
+  const { key } = wordSort;
+  const left = a[key];
+  const right = b[key];
+  // Missing values last, whichever the direction
+  if (left === undefined || right === undefined) {
+    return left === right ? 0 : left === undefined ? 1 : -1;
+  }
+  const order =
+    typeof left === "string"
+      ? left.localeCompare(right as string)
+      : left - (right as number);
+  return wordSort.ascending ? order : -order;
+}
+
+function renderWords() {
+  const search = wordSearchInput.value.trim().toLowerCase();
+  const state = wordStateFilterSelect.value;
+  const level = wordLevelFilterSelect.value;
+  const shown = words
+    .filter(
+      (word) =>
+        (!search ||
+          [word.term, word.reading, word.meaning].some((text) =>
+            text?.toLowerCase().includes(search),
+          )) &&
+        (!state || word.state === state) &&
+        (!level || statBucket(word.difficultyLevel) === Number(level)),
+    )
+    .sort(compareWords);
+
+  dashboardWordsBody.innerHTML = "";
+  shown.slice(0, WORD_ROW_LIMIT).forEach((word) => {
+    const row = document.createElement("tr");
+    const termCell = document.createElement("td");
+    termCell.textContent = word.term;
+    if (word.reading && word.reading !== word.term) {
+      const reading = document.createElement("span");
+      reading.className = "reading";
+      reading.textContent = ` ${word.reading}`;
+      termCell.appendChild(reading);
+    }
+    row.appendChild(termCell);
+    [
+      word.meaning ?? "",
+      `${Math.round(word.difficultyLevel)}%`,
+      STATE_LABELS[word.state],
+      word.interval !== undefined ? `${word.interval} d` : "",
+      word.lapses !== undefined ? `${word.lapses}` : "",
+      word.due ? new Date(word.due).toLocaleDateString() : "",
+    ].forEach((text) => {
+      const cell = document.createElement("td");
+      cell.textContent = text;
+      row.appendChild(cell);
+    });
+    dashboardWordsBody.appendChild(row);
+  });
+  dashboardWordCountDiv.textContent =
+    shown.length > WORD_ROW_LIMIT
+      ? `Showing ${WORD_ROW_LIMIT} of ${shown.length} words`
+      : `${shown.length} words`;
+}
+
+document
+  .querySelectorAll<HTMLElement>("th[data-word-sort]")
+  .forEach((header) => {
+    header.addEventListener("click", () => {
+      const key = header.dataset.wordSort as WordSortKey;
+      wordSort = {
+        key,
+        ascending: wordSort.key === key ? !wordSort.ascending : true,
+      };
+      renderWords();
+    });
+  });
+wordSearchInput.addEventListener("input", renderWords);
+wordStateFilterSelect.addEventListener("change", renderWords);
+wordLevelFilterSelect.addEventListener("change", renderWords);
+
+async function loadWords() {
+  const profile = profiles.find(
+    ({ id }) => id === dashboardProfileSelect.value,
+  );
+  if (!profile) return;
+  try {
+    const response = await browser.runtime.sendMessage({
+      action: "exportWords",
+      profileId: profile.id,
+    });
+    if (response?.error) throw new Error(response.error);
+    words = (response.words as [string, WordData][]).map((entry) =>
+      toDashboardWord(entry, profile),
+    );
+    const average = words.length
+      ? words.reduce((sum, word) => sum + word.difficultyLevel, 0) /
+        words.length
+      : 0;
+    dashboardSummaryDiv.textContent = `${words.length} words, average level ${Math.round(average)}`;
+  } catch (error) {
+    words = [];
+    dashboardSummaryDiv.textContent = `Could not load words: ${(error as Error).message}`;
+  }
+  renderHistogram(profile);
+  renderCardStates();
+  renderWords();
+}
+
+dashboardProfileSelect.addEventListener("change", loadWords);
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+async function loadSyncHistory() {
+  const response = await browser.runtime.sendMessage({
+    action: "getSyncHistory",
+  });
+  const history: SyncReport[] = response?.history ?? [];
+
+  syncHistoryBody.innerHTML = "";
+  if (history.length === 0) {
+    const row = syncHistoryBody.insertRow();
+    const cell = row.insertCell();
+    cell.colSpan = 6;
+    cell.textContent = response?.error ?? "No syncs yet";
+    return;
+  }
+  history.forEach((report) => {
+    const row = syncHistoryBody.insertRow();
+    [
+      new Date(report.time).toLocaleString(),
+      report.profileName,
+      report.mode,
+      report.mode === "failed"
+        ? (report.error ?? "")
+        : `+${report.added} ~${report.updated} −${report.removed}`,
+      `${report.total}`,
+      formatDuration(report.duration),
+    ].forEach((text) => (row.insertCell().textContent = text));
+    if (report.mode === "failed") row.className = "error";
+  });
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+async function loadStorageUsage() {
+  const response = await browser.runtime.sendMessage({
+    action: "getStorageUsage",
+  });
+  if (!response || response.error) {
+    storageUsageDiv.textContent = `Storage usage unavailable${response?.error ? `: ${response.error}` : ""}`;
+    return;
+  }
+  const records = Object.entries(response.records as Record<string, number>)
+    .map(([store, count]) => `${count} ${store}`)
+    .join(", ");
+  const usage =
+    response.usage !== undefined
+      ? `${formatBytes(response.usage)} used` +
+        (response.quota ? ` of ${formatBytes(response.quota)}` : "")
+      : "";
+  storageUsageDiv.textContent = `AnkiLevelsDB: ${records}. ${usage}`.trim();
+}
+
+// Show the saved profiles' data, keeping the chosen profile
+export function loadDashboard(savedProfiles: Profile[]) {
+  profiles = savedProfiles;
+  const chosen = dashboardProfileSelect.value;
+  dashboardProfileSelect.innerHTML = "";
+  profiles.forEach((profile) =>
+    dashboardProfileSelect.appendChild(new Option(profile.name, profile.id)),
+  );
+  if (profiles.some(({ id }) => id === chosen)) {
+    dashboardProfileSelect.value = chosen;
+  }
+  loadWords();
+  loadSyncHistory();
+  loadStorageUsage();
+}
@@ -0,0 +1,1076 @@
+import { createHighlighter } from "@/components/highlighter";
+import {
+  formatTime,
+  renderConnectionStatus,
+  renderSyncStatus,
+  showStatus,
+} from "@/components/status";
+import { wordsToCsv, type Backup } from "@/utils/backup";
+import type { ExposureReportRow } from "@/utils/exposure";
+import { resolveFieldMapping, type FieldMapping } from "@/utils/fields";
+import { readImportFile, type ImportSource } from "@/utils/import";
+import { INFLECTION_RULE_SETS } from "@/utils/inflection";
+import type { NormalizationSettings } from "@/utils/normalize";
+import { SCORERS, type ScoringStrategy } from "@/utils/scoring";
+import {
+  createProfile,
+  DEFAULT_ANKI_CONNECT,
+  getAnkiConnectSettings,
+  getHighlighter,
+  getProfiles,
+  getSiteFilter,
+  getSyncSettings,
+  parseList,
+  saveAnkiConnectSettings,
+  saveHighlighter,
+  saveProfiles,
+  saveSiteFilter,
+  saveSyncSettings,
+  SYNC_INTERVALS,
+  type AnkiConnectSettings,
+  type HighlighterType,
+  type MiningValue,
+  type Profile,
+  type WordSource,
+} from "@/utils/settings";
+import {
+  createStyler,
+  DEFAULT_DISPLAY,
+  HIGHLIGHT_STYLES,
+  normalizeBuckets,
+  PALETTES,
+  type DisplaySettings,
+  type HighlightStyle,
+  type LevelBucket,
+} from "@/utils/styles";
+import type { WordData, WordMatch } from "@/utils/words";
+import { loadDashboard } from "./dashboard";
+
+interface NoteTypeInfo {
+  modelName: string;
+  fieldNames: string[];
+  noteCount: number;
+}
+
+const allowListInput = document.getElementById(
+  "allowList",
+) as HTMLTextAreaElement;
+const blockListInput = document.getElementById(
+  "blockList",
+) as HTMLTextAreaElement;
+const highlighterSelect = document.getElementById(
+  "highlighter",
+) as HTMLSelectElement;
+const connectionStatusDiv = document.getElementById(
+  "connectionStatus",
+) as HTMLDivElement;
+const ankiConnectUrlInput = document.getElementById(
+  "ankiConnectUrl",
+) as HTMLInputElement;
+const ankiConnectKeyInput = document.getElementById(
+  "ankiConnectKey",
+) as HTMLInputElement;
+const syncStatusDiv = document.getElementById("syncStatus") as HTMLDivElement;
+const syncIntervalSelect = document.getElementById(
+  "syncInterval",
+) as HTMLSelectElement;
+const retryWhenReachableSelect = document.getElementById(
+  "retryWhenReachable",
+) as HTMLSelectElement;
+const testConnectionBtn = document.getElementById(
+  "testConnectionBtn",
+) as HTMLButtonElement;
+const profileSelect = document.getElementById(
+  "profileSelect",
+) as HTMLSelectElement;
+const newProfileBtn = document.getElementById(
+  "newProfileBtn",
+) as HTMLButtonElement;
+const deleteProfileBtn = document.getElementById(
+  "deleteProfileBtn",
+) as HTMLButtonElement;
+const profileNameInput = document.getElementById(
+  "profileName",
+) as HTMLInputElement;
+const languagesInput = document.getElementById("languages") as HTMLInputElement;
+const domainsInput = document.getElementById("domains") as HTMLInputElement;
+const hardColorInput = document.getElementById("hardColor") as HTMLInputElement;
+const easyColorInput = document.getElementById("easyColor") as HTMLInputElement;
+const paletteSelect = document.getElementById("palette") as HTMLSelectElement;
+const darkPaletteSelect = document.getElementById(
+  "darkPalette",
+) as HTMLSelectElement;
+const scaleSelect = document.getElementById("scale") as HTMLSelectElement;
+const bucketsDiv = document.getElementById("buckets") as HTMLDivElement;
+const addBucketBtn = document.getElementById(
+  "addBucketBtn",
+) as HTMLButtonElement;
+const backgroundOpacityInput = document.getElementById(
+  "backgroundOpacity",
+) as HTMLInputElement;
+const underlineThicknessInput = document.getElementById(
+  "underlineThickness",
+) as HTMLInputElement;
+const hideAboveInput = document.getElementById("hideAbove") as HTMLInputElement;
+const markDueSelect = document.getElementById("markDue") as HTMLSelectElement;
+const dueColorInput = document.getElementById("dueColor") as HTMLInputElement;
+const navigateUpToInput = document.getElementById(
+  "navigateUpTo",
+) as HTMLInputElement;
+const focusUpToInput = document.getElementById("focusUpTo") as HTMLInputElement;
+const previewLightDiv = document.getElementById(
+  "previewLight",
+) as HTMLDivElement;
+const previewDarkDiv = document.getElementById("previewDark") as HTMLDivElement;
+const boundariesSelect = document.getElementById(
+  "boundaries",
+) as HTMLSelectElement;
+const unicodeFormSelect = document.getElementById(
+  "unicodeForm",
+) as HTMLSelectElement;
+const caseFoldSelect = document.getElementById("caseFold") as HTMLSelectElement;
+const foldDiacriticsSelect = document.getElementById(
+  "foldDiacritics",
+) as HTMLSelectElement;
+const foldWidthSelect = document.getElementById(
+  "foldWidth",
+) as HTMLSelectElement;
+const foldKanaSelect = document.getElementById("foldKana") as HTMLSelectElement;
+const inflectionRulesSelect = document.getElementById(
+  "inflectionRules",
+) as HTMLSelectElement;
+const scoringStrategySelect = document.getElementById(
+  "scoringStrategy",
+) as HTMLSelectElement;
+const fsrsOptionsDiv = document.getElementById("fsrsOptions") as HTMLDivElement;
+const cardStateOptionsDiv = document.getElementById(
+  "cardStateOptions",
+) as HTMLDivElement;
+const numberInput = (id: string) =>
+  document.getElementById(id) as HTMLInputElement;
+const desiredRetentionInput = numberInput("desiredRetention");
+const matureStabilityInput = numberInput("matureStability");
+const matureIntervalInput = numberInput("matureInterval");
+const stateScoreInputs = {
+  new: numberInput("scoreNew"),
+  learning: numberInput("scoreLearning"),
+  young: numberInput("scoreYoung"),
+  mature: numberInput("scoreMature"),
+};
+const sourcesDiv = document.getElementById("sources") as HTMLDivElement;
+const miningDeckInput = document.getElementById(
+  "miningDeck",
+) as HTMLInputElement;
+const miningModelInput = document.getElementById(
+  "miningModel",
+) as HTMLInputElement;
+const deckNamesList = document.getElementById(
+  "deckNames",
+) as HTMLDataListElement;
+const modelNamesList = document.getElementById(
+  "modelNames",
+) as HTMLDataListElement;
+const miningFieldsDiv = document.getElementById(
+  "miningFields",
+) as HTMLDivElement;
+const loadMiningBtn = document.getElementById(
+  "loadMiningBtn",
+) as HTMLButtonElement;
+const addSourceBtn = document.getElementById(
+  "addSourceBtn",
+) as HTMLButtonElement;
+const importsDiv = document.getElementById("imports") as HTMLDivElement;
+const importFileInput = document.getElementById(
+  "importFile",
+) as HTMLInputElement;
+const exposureReportBtn = document.getElementById(
+  "exposureReportBtn",
+) as HTMLButtonElement;
+const clearExposuresBtn = document.getElementById(
+  "clearExposuresBtn",
+) as HTMLButtonElement;
+const exposureSummaryDiv = document.getElementById(
+  "exposureSummary",
+) as HTMLDivElement;
+const exposureListDiv = document.getElementById(
+  "exposureList",
+) as HTMLDivElement;
+const exposureWordsBody = document.getElementById(
+  "exposureWords",
+) as HTMLTableSectionElement;
+const exportBackupBtn = document.getElementById(
+  "exportBackupBtn",
+) as HTMLButtonElement;
+const exportWordsBtn = document.getElementById(
+  "exportWordsBtn",
+) as HTMLButtonElement;
+const restoreFileInput = document.getElementById(
+  "restoreFile",
+) as HTMLInputElement;
+const saveBtn = document.getElementById("saveBtn") as HTMLButtonElement;
+const statusDiv = document.getElementById("status") as HTMLDivElement;
+
+const MINING_VALUES: { value: MiningValue; label: string }[] = [
+  { value: "", label: "(empty)" },
+  { value: "word", label: "Selected word" },
+  { value: "sentence", label: "Sentence" },
+  { value: "title", label: "Page title" },
+  { value: "url", label: "Page URL" },
+];
+
+let profiles: Profile[] = [];
+// Field mapping of new notes for the edited profile
+let miningFields: Record<string, MiningValue> = {};
+let editingIndex = 0;
+
+// Editable rows of the edited profile's buckets
+let bucketEditors: {
+  upToInput: HTMLInputElement;
+  styleSelect: HTMLSelectElement;
+}[] = [];
+
+// Editable state for each source block of the edited profile
+let sourceEditors: {
+  queryInput: HTMLTextAreaElement;
+  fieldMappings: Record<string, FieldMapping>;
+}[] = [];
+
+inflectionRulesSelect.appendChild(new Option("No (exact matches only)", ""));
+Object.entries(INFLECTION_RULE_SETS).forEach(([language, ruleSet]) => {
+  inflectionRulesSelect.appendChild(new Option(ruleSet.name, language));
+});
+
+Object.entries(SYNC_INTERVALS).forEach(([minutes, label]) =>
+  syncIntervalSelect.appendChild(new Option(label, minutes)),
+);
+darkPaletteSelect.appendChild(new Option("Same as above", ""));
+Object.entries(PALETTES).forEach(([paletteId, palette]) => {
+  paletteSelect.appendChild(new Option(palette.name, paletteId));
+  darkPaletteSelect.appendChild(new Option(palette.name, paletteId));
+});
+
+Object.entries(SCORERS).forEach(([strategy, scorer]) => {
+  scoringStrategySelect.appendChild(new Option(scorer.name, strategy));
+});
+
+// Only show the thresholds of the selected strategy
+function updateScoringOptions() {
+  const strategy = scoringStrategySelect.value;
+  fsrsOptionsDiv.style.display = strategy === "fsrs" ? "block" : "none";
+  cardStateOptionsDiv.style.display =
+    strategy === "cardState" ? "block" : "none";
+}
+
+scoringStrategySelect.addEventListener("change", updateScoringOptions);
+
+function addBucketEditor(bucket: LevelBucket) {
+  const row = document.createElement("div");
+  row.className = "field-row";
+  const upToInput = document.createElement("input");
+  upToInput.type = "number";
+  upToInput.min = "0";
+  upToInput.max = "100";
+  upToInput.valueAsNumber = bucket.upTo;
+  const styleSelect = document.createElement("select");
+  Object.entries(HIGHLIGHT_STYLES).forEach(([style, label]) =>
+    styleSelect.appendChild(new Option(label, style)),
+  );
+  styleSelect.value = bucket.style;
+  const removeBtn = document.createElement("button");
+  removeBtn.className = "secondary";
+  removeBtn.textContent = "Remove";
+
+  const editor = { upToInput, styleSelect };
+  bucketEditors.push(editor);
+  removeBtn.addEventListener("click", () => {
+    bucketEditors.splice(bucketEditors.indexOf(editor), 1);
+    row.remove();
+    renderPreview();
+  });
+  row.append(upToInput, styleSelect, removeBtn);
+  bucketsDiv.appendChild(row);
+}
+
+function renderBuckets(buckets: LevelBucket[]) {
+  bucketsDiv.innerHTML = "";
+  bucketEditors = [];
+  buckets.forEach(addBucketEditor);
+}
+
+addBucketBtn.addEventListener("click", () => {
+  addBucketEditor({ upTo: 100, style: "both" });
+  renderPreview();
+});
+
+// Read the display controls, keeping the previous value of empty fields
+function collectDisplay(previous: DisplaySettings): DisplaySettings {
+  const numberOr = (input: HTMLInputElement, fallback: number) =>
+    Number.isNaN(input.valueAsNumber) ? fallback : input.valueAsNumber;
+  return {
+    palette: paletteSelect.value,
+    darkPalette: darkPaletteSelect.value,
+    scale: scaleSelect.value as DisplaySettings["scale"],
+    buckets: normalizeBuckets(
+      bucketEditors.map(({ upToInput, styleSelect }) => ({
+        upTo: upToInput.valueAsNumber,
+        style: styleSelect.value as HighlightStyle,
+      })),
+    ),
+    backgroundOpacity: numberOr(
+      backgroundOpacityInput,
+      previous.backgroundOpacity,
+    ),
+    underlineThickness: numberOr(
+      underlineThicknessInput,
+      previous.underlineThickness,
+    ),
+    hideAbove: numberOr(hideAboveInput, previous.hideAbove),
+    markDue: markDueSelect.value === "on",
+    dueColor: dueColorInput.value,
+    navigateUpTo: numberOr(navigateUpToInput, previous.navigateUpTo),
+    focusUpTo: numberOr(focusUpToInput, previous.focusUpTo),
+  };
+}
+
+// Sample levels, and a due card for the due marker
+const PREVIEW_WORDS: { word: string; data: WordData }[] = [
+  ...[0, 10, 25, 40, 55, 70, 85, 100].map((level) => ({
+    word: `${level}%`,
+    data: { difficultyLevel: level },
+  })),
+  {
+    word: "due",
+    data: {
+      difficultyLevel: 40,
+      stats: {
+        interval: 3,
+        factor: 2500,
+        reps: 4,
+        lapses: 0,
+        type: 2,
+        queue: 2,
+        due: 0,
+      },
+    },
+  },
+];
+
+// Sample levels drawn by the page highlighter, on a light and a dark page
+function renderPreview() {
+  const profile = profiles[editingIndex];
+  const display = collectDisplay(profile?.display ?? DEFAULT_DISPLAY);
+  const colors = { hard: hardColorInput.value, easy: easyColorInput.value };
+
+  const words = PREVIEW_WORDS.map(({ word }) => word);
+  [previewLightDiv, previewDarkDiv].forEach((previewDiv) => {
+    const dark = previewDiv === previewDarkDiv;
+    const textNode = document.createTextNode(words.join(" "));
+    previewDiv.replaceChildren(textNode);
+    const highlighter = createHighlighter(
+      "spans",
+      createStyler(colors, display, dark),
+      () => [previewDiv],
+    );
+
+    let index = 0;
+    const groups = PREVIEW_WORDS.map(({ word, data }) => {
+      const match: WordMatch = { index, length: word.length, word, data };
+      index += word.length + 1;
+      return { ...match, overlapping: [match] };
+    });
+    highlighter.highlight(textNode, groups);
+  });
+}
+
+[
+  paletteSelect,
+  darkPaletteSelect,
+  scaleSelect,
+  bucketsDiv,
+  backgroundOpacityInput,
+  underlineThicknessInput,
+  hideAboveInput,
+  markDueSelect,
+  dueColorInput,
+  hardColorInput,
+  easyColorInput,
+].forEach((control) => control.addEventListener("input", renderPreview));
+scaleSelect.addEventListener("change", renderPreview);
+bucketsDiv.addEventListener("change", renderPreview);
+
+function renderMiningFields(fieldNames: string[]) {
+  miningFieldsDiv.innerHTML = "";
+  fieldNames.forEach((fieldName, index) => {
+    // Default to the word in the first field and the sentence in the second
+    miningFields[fieldName] ??=
+      index === 0 ? "word" : index === 1 ? "sentence" : "";
+
+    const row = document.createElement("div");
+    row.className = "field-row";
+    const label = document.createElement("span");
+    label.textContent = fieldName;
+    const select = document.createElement("select");
+    MINING_VALUES.forEach(({ value, label }) =>
+      select.appendChild(new Option(label, value)),
+    );
+    select.value = miningFields[fieldName];
+    select.addEventListener("change", () => {
+      miningFields[fieldName] = select.value as MiningValue;
+    });
+    row.append(label, select);
+    miningFieldsDiv.appendChild(row);
+  });
+}
+
+async function loadMiningFields() {
+  const modelName = miningModelInput.value.trim();
+  if (!modelName) return;
+  try {
+    const response = await browser.runtime.sendMessage({
+      action: "getModelFieldNames",
+      modelName,
+    });
+    if (response?.error) throw new Error(response.error);
+    // Drop fields the note type no longer has
+    miningFields = Object.fromEntries(
+      Object.entries(miningFields).filter(([name]) =>
+        response.fieldNames.includes(name),
+      ),
+    );
+    renderMiningFields(response.fieldNames);
+  } catch (error) {
+    console.error("Error loading fields:", error);
+    showStatus(statusDiv, "Could not load the note type's fields", true);
+  }
+}
+
+loadMiningBtn.addEventListener("click", async () => {
+  try {
+    const response = await browser.runtime.sendMessage({
+      action: "getDecksAndModels",
+    });
+    if (response?.error) throw new Error(response.error);
+    deckNamesList.innerHTML = "";
+    response.deckNames.forEach((name: string) =>
+      deckNamesList.appendChild(new Option(name)),
+    );
+    modelNamesList.innerHTML = "";
+    response.modelNames.forEach((name: string) =>
+      modelNamesList.appendChild(new Option(name)),
+    );
+    await loadMiningFields();
+  } catch (error) {
+    console.error("Error loading decks:", error);
+    showStatus(statusDiv, "Could not reach AnkiConnect", true);
+  }
+});
+
+miningModelInput.addEventListener("change", () => {
+  miningFields = {};
+  loadMiningFields();
+});
+
+function renderProfileOptions() {
+  profileSelect.innerHTML = "";
+  profiles.forEach((profile) => {
+    profileSelect.appendChild(new Option(profile.name, profile.id));
+  });
+  profileSelect.value = profiles[editingIndex].id;
+}
+
+// Show a profile in the form
+function renderProfile(profile: Profile) {
+  profileNameInput.value = profile.name;
+  languagesInput.value = profile.languages.join(", ");
+  domainsInput.value = profile.domains.join(", ");
+  hardColorInput.value = profile.colors.hard;
+  easyColorInput.value = profile.colors.easy;
+
+  const { display } = profile;
+  paletteSelect.value = display.palette;
+  darkPaletteSelect.value = display.darkPalette;
+  scaleSelect.value = display.scale;
+  renderBuckets(display.buckets);
+  backgroundOpacityInput.valueAsNumber = display.backgroundOpacity;
+  underlineThicknessInput.valueAsNumber = display.underlineThickness;
+  hideAboveInput.valueAsNumber = display.hideAbove;
+  markDueSelect.value = display.markDue ? "on" : "";
+  dueColorInput.value = display.dueColor;
+  navigateUpToInput.valueAsNumber = display.navigateUpTo;
+  focusUpToInput.valueAsNumber = display.focusUpTo;
+  renderPreview();
+
+  inflectionRulesSelect.value = profile.inflectionRules;
+  const { normalization } = profile;
+  boundariesSelect.value = normalization.boundaries;
+  unicodeFormSelect.value = normalization.unicode;
+  caseFoldSelect.value = normalization.caseFold ? "on" : "";
+  foldDiacriticsSelect.value = normalization.foldDiacritics ? "on" : "";
+  foldWidthSelect.value = normalization.foldWidth ? "on" : "";
+  foldKanaSelect.value = normalization.foldKana ? "on" : "";
+
+  miningDeckInput.value = profile.mining.deckName;
+  miningModelInput.value = profile.mining.modelName;
+  miningFields = { ...profile.mining.fields };
+  renderMiningFields(Object.keys(miningFields));
+
+  const { strategy, fsrs, cardState } = profile.scoring;
+  scoringStrategySelect.value = strategy;
+  desiredRetentionInput.valueAsNumber = fsrs.desiredRetention;
+  matureStabilityInput.valueAsNumber = fsrs.matureStability;
+  matureIntervalInput.valueAsNumber = cardState.matureInterval;
+  Object.entries(stateScoreInputs).forEach(([state, input]) => {
+    input.valueAsNumber =
+      cardState.scores[state as keyof typeof cardState.scores];
+  });
+  updateScoringOptions();
+
+  sourcesDiv.innerHTML = "";
+  sourceEditors = [];
+  if (profile.sources.length === 0) {
+    addSourceEditor({ query: "", fieldMappings: {} });
+  } else {
+    profile.sources.forEach(addSourceEditor);
+  }
+  loadImports(profile.id);
+  exposureSummaryDiv.textContent = "";
+  exposureListDiv.hidden = true;
+}
+
+async function getImports(profileId: string): Promise<ImportSource[]> {
+  const response = await browser.runtime.sendMessage({
+    action: "getImports",
+    profileId,
+  });
+  if (response?.error) throw new Error(response.error);
+  return response?.imports ?? [];
+}
+
+async function loadImports(profileId: string) {
+  let imports: ImportSource[];
+  try {
+    imports = await getImports(profileId);
+  } catch (error) {
+    console.error("Error loading imports:", error);
+    showStatus(
+      statusDiv,
+      `Could not load the imported files: ${(error as Error).message}`,
+      true,
+    );
+    return;
+  }
+  // Another profile may have been picked meanwhile
+  if (profiles[editingIndex]?.id !== profileId) return;
+
+  importsDiv.innerHTML = "";
+  imports.forEach((source) => {
+    const row = document.createElement("div");
+    row.className = "row";
+    const name = document.createElement("span");
+    name.className = "import-name";
+    name.textContent = `${source.name} (${source.count} words)`;
+    name.title = `Imported ${formatTime(source.importedAt)}`;
+    const removeBtn = document.createElement("button");
+    removeBtn.className = "secondary";
+    removeBtn.textContent = "Remove";
+    removeBtn.addEventListener("click", async () => {
+      await browser.runtime.sendMessage({
+        action: "deleteImport",
+        profileId,
+        sourceId: source.id,
+      });
+      loadImports(profileId);
+    });
+    row.append(name, removeBtn);
+    importsDiv.appendChild(row);
+  });
+}
+
+// Files are read here and only the words are sent to the background
+importFileInput.addEventListener("change", async () => {
+  const file = importFileInput.files?.[0];
+  if (!file) return;
+  collectProfile();
+  const profile = profiles[editingIndex];
+  showStatus(statusDiv, `Reading ${file.name}...`);
+  try {
+    const { format, words } = await readImportFile(file, profile);
+    const response = await browser.runtime.sendMessage({
+      action: "importWords",
+      profileId: profile.id,
+      name: file.name,
+      format,
+      words,
+    });
+    if (response?.error) throw new Error(response.error);
+    showStatus(
+      statusDiv,
+      `Imported ${response.source.count} words from ${file.name}`,
+    );
+    loadImports(profile.id);
+  } catch (error) {
+    console.error("Error importing:", error);
+    showStatus(
+      statusDiv,
+      `Could not import ${file.name}: ${(error as Error).message}`,
+      true,
+    );
+  } finally {
+    importFileInput.value = "";
+  }
+});
+
+// Words shown in the exposure report
+const EXPOSURE_WORD_LIMIT = 50;
+
+function renderExposureReport(rows: ExposureReportRow[]) {
+  exposureSummaryDiv.textContent = rows.length
+    ? `${rows.length} deck words met on pages, frequent and hard ones first`
+    : "No deck words met on pages yet";
+  exposureListDiv.hidden = rows.length === 0;
+
+  exposureWordsBody.innerHTML = "";
+  rows.slice(0, EXPOSURE_WORD_LIMIT).forEach((word) => {
+    const row = document.createElement("tr");
+    const sample = word.samples[0];
+    if (sample) row.title = `${sample.sentence}\n${sample.url}`;
+    const termCell = document.createElement("td");
+    termCell.textContent = word.term;
+    if (word.reading && word.reading !== word.term) {
+      const reading = document.createElement("span");
+      reading.className = "reading";
+      reading.textContent = ` ${word.reading}`;
+      termCell.appendChild(reading);
+    }
+    const levelCell = document.createElement("td");
+    levelCell.textContent = `${Math.round(word.difficultyLevel)}%`;
+    const countCell = document.createElement("td");
+    countCell.textContent = `${word.count}`;
+    const lastSeenCell = document.createElement("td");
+    lastSeenCell.textContent = new Date(word.lastSeen).toLocaleDateString();
+    row.append(termCell, levelCell, countCell, lastSeenCell);
+    exposureWordsBody.appendChild(row);
+  });
+}
+
+exposureReportBtn.addEventListener("click", async () => {
+  const profileId = profiles[editingIndex].id;
+  const response = await browser.runtime.sendMessage({
+    action: "getExposureReport",
+    profileId,
+  });
+  if (response?.error) {
+    showStatus(statusDiv, `Could not load the report: ${response.error}`, true);
+    return;
+  }
+  // Another profile may have been picked meanwhile
+  if (profiles[editingIndex]?.id !== profileId) return;
+  renderExposureReport(response.rows);
+});
+
+clearExposuresBtn.addEventListener("click", async () => {
+  const profile = profiles[editingIndex];
+  if (!confirm(`Forget every word met on pages for "${profile.name}"?`)) {
+    return;
+  }
+  const response = await browser.runtime.sendMessage({
+    action: "clearExposures",
+    profileId: profile.id,
+  });
+  if (response?.error) {
+    showStatus(statusDiv, `Could not clear: ${response.error}`, true);
+    return;
+  }
+  renderExposureReport([]);
+});
+
+// Read the form back into the edited profile
+function collectProfile() {
+  const profile = profiles[editingIndex];
+  profile.name = profileNameInput.value.trim() || profile.name;
+  profile.languages = parseList(languagesInput.value);
+  profile.domains = parseList(domainsInput.value);
+  profile.colors = { hard: hardColorInput.value, easy: easyColorInput.value };
+  profile.display = collectDisplay(profile.display);
+  profile.inflectionRules = inflectionRulesSelect.value;
+  profile.normalization = {
+    unicode: unicodeFormSelect.value as NormalizationSettings["unicode"],
+    caseFold: caseFoldSelect.value === "on",
+    foldDiacritics: foldDiacriticsSelect.value === "on",
+    foldWidth: foldWidthSelect.value === "on",
+    foldKana: foldKanaSelect.value === "on",
+    boundaries: boundariesSelect.value as NormalizationSettings["boundaries"],
+  };
+  profile.mining = {
+    ...profile.mining,
+    deckName: miningDeckInput.value.trim(),
+    modelName: miningModelInput.value.trim(),
+    fields: miningFields,
+  };
+
+  // Keep the previous value of any field left empty
+  const numberOr = (input: HTMLInputElement, fallback: number) =>
+    Number.isNaN(input.valueAsNumber) ? fallback : input.valueAsNumber;
+  const { fsrs, cardState } = profile.scoring;
+  profile.scoring = {
+    strategy: scoringStrategySelect.value as ScoringStrategy,
+    fsrs: {
+      desiredRetention: numberOr(desiredRetentionInput, fsrs.desiredRetention),
+      matureStability: numberOr(matureStabilityInput, fsrs.matureStability),
+    },
+    cardState: {
+      matureInterval: numberOr(matureIntervalInput, cardState.matureInterval),
+      scores: {
+        new: numberOr(stateScoreInputs.new, cardState.scores.new),
+        learning: numberOr(
+          stateScoreInputs.learning,
+          cardState.scores.learning,
+        ),
+        young: numberOr(stateScoreInputs.young, cardState.scores.young),
+        mature: numberOr(stateScoreInputs.mature, cardState.scores.mature),
+      },
+    },
+  };
+  profile.sources = sourceEditors
+    .map((editor) => ({
+      query: editor.queryInput.value.trim(),
+      fieldMappings: editor.fieldMappings,
+    }))
+    .filter((source) => source.query);
+}
+
+// Load saved settings
+Promise.all([
+  getProfiles(),
+  getSiteFilter(),
+  getHighlighter(),
+  getAnkiConnectSettings(),
+  getSyncSettings(),
+]).then(([savedProfiles, siteFilter, highlighter, ankiConnect, sync]) => {
+  profiles = savedProfiles;
+  highlighterSelect.value = highlighter;
+  ankiConnectUrlInput.value = ankiConnect.url;
+  ankiConnectKeyInput.value = ankiConnect.key;
+  syncIntervalSelect.value = String(sync.interval);
+  retryWhenReachableSelect.value = sync.retryWhenReachable ? "on" : "";
+  allowListInput.value = siteFilter.allowList.join("\n");
+  blockListInput.value = siteFilter.blockList.join("\n");
+
+  renderProfileOptions();
+  renderProfile(profiles[editingIndex]);
+  loadDashboard(profiles);
+});
+
+checkConnection();
+loadSyncStatus();
+
+profileSelect.addEventListener("change", () => {
+  collectProfile();
+  editingIndex = profiles.findIndex(({ id }) => id === profileSelect.value);
+  renderProfileOptions();
+  renderProfile(profiles[editingIndex]);
+});
+
+newProfileBtn.addEventListener("click", () => {
+  collectProfile();
+  profiles.push(createProfile(`Profile ${profiles.length + 1}`));
+  editingIndex = profiles.length - 1;
+  renderProfileOptions();
+  renderProfile(profiles[editingIndex]);
+});
+
+deleteProfileBtn.addEventListener("click", () => {
+  if (profiles.length === 1) {
+    showStatus(statusDiv, "At least one profile is required", true);
+    return;
+  }
+  profiles.splice(editingIndex, 1);
+  editingIndex = 0;
+  renderProfileOptions();
+  renderProfile(profiles[editingIndex]);
+});
+
+function checkConnection() {
+  return renderConnectionStatus(connectionStatusDiv);
+}
+
+function loadSyncStatus() {
+  return renderSyncStatus(syncStatusDiv);
+}
+
+function collectAnkiConnectSettings(): AnkiConnectSettings {
+  return {
+    url: ankiConnectUrlInput.value.trim() || DEFAULT_ANKI_CONNECT.url,
+    key: ankiConnectKeyInput.value.trim(),
+  };
+}
+
+testConnectionBtn.addEventListener("click", async () => {
+  await saveAnkiConnectSettings(collectAnkiConnectSettings());
+  await checkConnection();
+});
+
+function createFieldSelect(
+  fieldNames: string[],
+  selected: string | undefined,
+  optional: boolean,
+): HTMLSelectElement {
+  const select = document.createElement("select");
+  if (optional) {
+    select.appendChild(new Option("(none)", ""));
+  }
+  fieldNames.forEach((name) => select.appendChild(new Option(name, name)));
+  select.value = selected ?? "";
+  return select;
+}
+
+function renderNoteTypes(
+  container: HTMLDivElement,
+  noteTypes: NoteTypeInfo[],
+  fieldMappings: Record<string, FieldMapping>,
+) {
+  container.innerHTML = "";
+  if (noteTypes.length === 0) {
+    container.textContent = "No notes match this query.";
+    return;
+  }
+
+  noteTypes.forEach(({ modelName, fieldNames, noteCount }) => {
+    // Start from the saved mapping, or guess one from common field names
+    const mapping = resolveFieldMapping(
+      fieldNames,
+      fieldMappings[modelName],
+    ) ?? { term: fieldNames[0] };
+    fieldMappings[modelName] = mapping;
+
+    const noteTypeDiv = document.createElement("div");
+    noteTypeDiv.className = "note-type";
+
+    const nameDiv = document.createElement("div");
+    nameDiv.className = "note-type-name";
+    nameDiv.textContent = `${modelName} (${noteCount} notes)`;
+    noteTypeDiv.appendChild(nameDiv);
+
+    const roles: { key: keyof FieldMapping; label: string }[] = [
+      { key: "term", label: "Term" },
+      { key: "reading", label: "Reading" },
+      { key: "meaning", label: "Meaning" },
+    ];
+    roles.forEach(({ key, label }) => {
+      const row = document.createElement("div");
+      row.className = "field-row";
+      const labelSpan = document.createElement("span");
+      labelSpan.textContent = label;
+      const select = createFieldSelect(
+        fieldNames,
+        mapping[key],
+        key !== "term",
+      );
+      select.addEventListener("change", () => {
+        fieldMappings[modelName] = {
+          ...fieldMappings[modelName],
+          [key]: select.value || undefined,
+        };
+      });
+      row.append(labelSpan, select);
+      noteTypeDiv.appendChild(row);
+    });
+
+    container.appendChild(noteTypeDiv);
+  });
+}
+
+function addSourceEditor(source: WordSource) {
+  const sourceDiv = document.createElement("div");
+  sourceDiv.className = "source";
+
+  const queryInput = document.createElement("textarea");
+  queryInput.rows = 2;
+  queryInput.placeholder = 'e.g., deck:Mining note:"Lapis" -is:suspended';
+  queryInput.value = source.query;
+
+  const noteTypesDiv = document.createElement("div");
+
+  const editor = { queryInput, fieldMappings: { ...source.fieldMappings } };
+  sourceEditors.push(editor);
+
+  const loadBtn = document.createElement("button");
+  loadBtn.className = "secondary";
+  loadBtn.textContent = "Load Note Types";
+  loadBtn.addEventListener("click", async () => {
+    const query = queryInput.value.trim();
+    if (!query) {
+      showStatus(statusDiv, "Please enter a query", true);
+      return;
+    }
+    noteTypesDiv.textContent = "Loading...";
+    try {
+      const response = await browser.runtime.sendMessage({
+        action: "getNoteTypes",
+        query,
+      });
+      if (response?.error) throw new Error(response.error);
+      renderNoteTypes(noteTypesDiv, response.noteTypes, editor.fieldMappings);
+    } catch (error) {
+      console.error("Error loading note types:", error);
+      noteTypesDiv.textContent = "";
+      showStatus(statusDiv, "Could not reach AnkiConnect", true);
+    }
+  });
+
+  const removeBtn = document.createElement("button");
+  removeBtn.className = "secondary";
+  removeBtn.textContent = "Remove";
+  removeBtn.addEventListener("click", () => {
+    sourceEditors.splice(sourceEditors.indexOf(editor), 1);
+    sourceDiv.remove();
+  });
+
+  sourceDiv.append(queryInput, loadBtn, removeBtn, noteTypesDiv);
+  sourcesDiv.appendChild(sourceDiv);
+}
+
+addSourceBtn.addEventListener("click", () => {
+  addSourceEditor({ query: "", fieldMappings: {} });
+});
+
+function downloadFile(name: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// e.g. 2025-10-01
+function dateStamp(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+exportBackupBtn.addEventListener("click", async () => {
+  try {
+    const response = await browser.runtime.sendMessage({
+      action: "exportBackup",
+    });
+    if (response?.error) throw new Error(response.error);
+    const backup: Backup = response.backup;
+    downloadFile(
+      `anki-levels-backup-${dateStamp()}.json`,
+      JSON.stringify(backup, null, 2),
+      "application/json",
+    );
+  } catch (error) {
+    console.error("Error exporting:", error);
+    showStatus(statusDiv, "Could not export the backup", true);
+  }
+});
+
+exportWordsBtn.addEventListener("click", async () => {
+  const profile = profiles[editingIndex];
+  try {
+    const response = await browser.runtime.sendMessage({
+      action: "exportWords",
+      profileId: profile.id,
+    });
+    if (response?.error) throw new Error(response.error);
+    downloadFile(
+      `anki-levels-${profile.name}-${dateStamp()}.csv`,
+      wordsToCsv(response.words),
+      "text/csv",
+    );
+  } catch (error) {
+    console.error("Error exporting:", error);
+    showStatus(statusDiv, "Could not export the words", true);
+  }
+});
+
+restoreFileInput.addEventListener("change", async () => {
+  const file = restoreFileInput.files?.[0];
+  if (!file) return;
+  try {
+    if (
+      !confirm(`Replace all words and settings with the ones in ${file.name}?`)
+    ) {
+      return;
+    }
+    const response = await browser.runtime.sendMessage({
+      action: "restoreBackup",
+      text: await file.text(),
+    });
+    if (response?.error) throw new Error(response.error);
+    // Show the restored settings
+    location.reload();
+  } catch (error) {
+    console.error("Error restoring:", error);
+    showStatus(
+      statusDiv,
+      `Could not restore: ${(error as Error).message}`,
+      true,
+    );
+  } finally {
+    restoreFileInput.value = "";
+  }
+});
+
+saveBtn.addEventListener("click", async () => {
+  collectProfile();
+
+  try {
+    // Profiles need a query or an imported file
+    let emptyProfile: Profile | undefined;
+    for (const profile of profiles) {
+      if (profile.sources.length > 0) continue;
+      if ((await getImports(profile.id)).length > 0) continue;
+      emptyProfile = profile;
+      break;
+    }
+    if (emptyProfile) {
+      showStatus(
+        statusDiv,
+        `Please enter a search query for ${emptyProfile.name}`,
+        true,
+      );
+      return;
+    }
+
+    // Save to storage
+    await saveProfiles(profiles);
+    // Sites switched in the popup are kept as they are
+    const { sites } = await getSiteFilter();
+    await saveSiteFilter({
+      allowList: parseList(allowListInput.value),
+      blockList: parseList(blockListInput.value),
+      sites,
+    });
+    await saveHighlighter(highlighterSelect.value as HighlighterType);
+    await saveAnkiConnectSettings(collectAnkiConnectSettings());
+    await saveSyncSettings({
+      interval: Number(syncIntervalSelect.value),
+      retryWhenReachable: retryWhenReachableSelect.value === "on",
+    });
+    showStatus(statusDiv, "Settings saved! Syncing with Anki...");
+    // Tell background script to refresh, open tabs update once it is done
+    const { count, reports } = await browser.runtime.sendMessage({
+      action: "refreshWords",
+    });
+    const failed = (reports as { error?: string }[]).find(
+      (report) => report.error,
+    );
+    if (failed) {
+      showStatus(
+        statusDiv,
+        `Settings saved, but the sync failed: ${failed.error}`,
+        true,
+      );
+    } else {
+      showStatus(statusDiv, `Settings saved! ${count} words synced`);
+    }
+    checkConnection();
+    loadSyncStatus();
+    loadDashboard(profiles);
+  } catch (error) {
+    console.error("Error saving:", error);
+    showStatus(statusDiv, "Error saving settings", true);
+  }
+});
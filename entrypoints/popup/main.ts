@@ -1,50 +1,242 @@
-const deckNameInput = document.getElementById("deckName") as HTMLInputElement;
-const saveBtn = document.getElementById("saveBtn") as HTMLButtonElement;
+import {
+  renderConnectionStatus,
+  renderSyncStatus,
+  showStatus,
+} from "@/components/status";
+import {
+  DEFAULT_COLORS,
+  getProfiles,
+  getSiteFilter,
+  getSiteProfiles,
+  setSiteEnabled,
+  setSiteProfile,
+  type Profile,
+} from "@/utils/settings";
+import { STAT_BUCKETS, type PageStats, type PageWordStat } from "@/utils/stats";
+import { DEFAULT_DISPLAY, paletteColor } from "@/utils/styles";
+
+// Status of the current page and site. Everything else is set on the options
+// page.
+
+const connectionStatusDiv = document.getElementById(
+  "connectionStatus",
+) as HTMLDivElement;
+const syncStatusDiv = document.getElementById("syncStatus") as HTMLDivElement;
+const comprehensionSpan = document.getElementById(
+  "comprehension",
+) as HTMLSpanElement;
+const statsSummarySpan = document.getElementById(
+  "statsSummary",
+) as HTMLSpanElement;
+const bucketBarDiv = document.getElementById("bucketBar") as HTMLDivElement;
+const bucketLegendDiv = document.getElementById(
+  "bucketLegend",
+) as HTMLDivElement;
+const pageWordsBody = document.getElementById(
+  "pageWords",
+) as HTMLTableSectionElement;
+const siteProfileSelect = document.getElementById(
+  "siteProfile",
+) as HTMLSelectElement;
+const siteLabel = document.getElementById("siteLabel") as HTMLLabelElement;
+const siteEnabledSelect = document.getElementById(
+  "siteEnabled",
+) as HTMLSelectElement;
+const siteEnabledLabel = document.getElementById(
+  "siteEnabledLabel",
+) as HTMLLabelElement;
+const syncBtn = document.getElementById("syncBtn") as HTMLButtonElement;
+const optionsBtn = document.getElementById("optionsBtn") as HTMLButtonElement;
 const statusDiv = document.getElementById("status") as HTMLDivElement;
 
-// Load saved deck name
-browser.storage.local.get("deckName").then((result) => {
-  if (result.deckName) {
-    deckNameInput.value = result.deckName;
-  } else {
-    // Set default deck name
-    deckNameInput.value = "";
-  }
+let profiles: Profile[] = [];
+let hostname = "";
+
+// Hardest words shown in the page word list
+const PAGE_WORD_LIMIT = 50;
+
+let pageWords: PageWordStat[] = [];
+let pageWordSort: { key: keyof PageWordStat; ascending: boolean } = {
+  key: "difficultyLevel",
+  ascending: true,
+};
+
+function renderPageWords() {
+  const { key, ascending } = pageWordSort;
+  const sorted = [...pageWords].sort((a, b) => {
+    const order =
+      key === "term"
+        ? a.term.localeCompare(b.term)
+        : (a[key] as number) - (b[key] as number);
+    return ascending ? order : -order;
+  });
+
+  pageWordsBody.innerHTML = "";
+  sorted.slice(0, PAGE_WORD_LIMIT).forEach((word) => {
+    const row = document.createElement("tr");
+    const termCell = document.createElement("td");
+    termCell.textContent = word.term;
+    if (word.reading && word.reading !== word.term) {
+      const reading = document.createElement("span");
+      reading.className = "reading";
+      reading.textContent = ` ${word.reading}`;
+      termCell.appendChild(reading);
+    }
+    const levelCell = document.createElement("td");
+    levelCell.textContent = `${Math.round(word.difficultyLevel)}%`;
+    const countCell = document.createElement("td");
+    countCell.textContent = `${word.count}`;
+    row.append(termCell, levelCell, countCell);
+    pageWordsBody.appendChild(row);
+  });
+}
+
+document.querySelectorAll<HTMLElement>("th[data-sort]").forEach((header) => {
+  header.addEventListener("click", () => {
+    const key = header.dataset.sort as keyof PageWordStat;
+    pageWordSort = {
+      key,
+      ascending: pageWordSort.key === key ? !pageWordSort.ascending : true,
+    };
+    renderPageWords();
+  });
 });
 
-function showStatus(message: string, isError = false) {
-  statusDiv.textContent = message;
-  statusDiv.className = `status ${isError ? "error" : "success"}`;
-  statusDiv.style.display = "block";
-  setTimeout(() => {
-    statusDiv.style.display = "none";
-  }, 3000);
+function renderPageStats(
+  stats: PageStats,
+  colors: Profile["colors"],
+  paletteId: string,
+) {
+  comprehensionSpan.textContent = `${Math.round(stats.comprehension)}%`;
+  comprehensionSpan.title = `${Math.round(stats.coverage)}% of the text is in your deck`;
+  statsSummarySpan.textContent = `${stats.matchedTokens} matches, ${stats.uniqueWords} unique words`;
+
+  bucketBarDiv.innerHTML = "";
+  bucketLegendDiv.innerHTML = "";
+  STAT_BUCKETS.forEach((bucket, index) => {
+    const count = stats.buckets[index] ?? 0;
+    const color = paletteColor(
+      paletteId,
+      colors,
+      index / (STAT_BUCKETS.length - 1),
+    );
+    const segment = document.createElement("div");
+    segment.style.flex = `${count}`;
+    segment.style.background = color;
+    segment.title = `${bucket.label}%: ${count}`;
+    bucketBarDiv.appendChild(segment);
+
+    const legend = document.createElement("span");
+    legend.textContent = `${count}`;
+    legend.style.color = color;
+    bucketLegendDiv.appendChild(legend);
+  });
+
+  pageWords = stats.words;
+  renderPageWords();
+}
+
+async function loadPageStats(tabId: number) {
+  try {
+    // Statistics cover the top frame only
+    const stats: PageStats | null = await browser.tabs.sendMessage(
+      tabId,
+      { action: "getPageStats" },
+      { frameId: 0 },
+    );
+    if (!stats) return;
+    const profile = profiles.find(({ id }) => id === stats.profileId);
+    renderPageStats(
+      stats,
+      profile?.colors ?? DEFAULT_COLORS,
+      profile?.display.palette ?? DEFAULT_DISPLAY.palette,
+    );
+  } catch {
+    // No content script on this tab, e.g. a browser page
+  }
 }
 
-saveBtn.addEventListener("click", async () => {
-  const deckName = deckNameInput.value.trim();
-  if (!deckName) {
-    showStatus("Please enter a deck name", true);
-    return;
+// Load profiles and the manual choices for the active tab
+Promise.all([
+  getProfiles(),
+  getSiteProfiles(),
+  getSiteFilter(),
+  browser.tabs.query({ active: true, currentWindow: true }),
+]).then(([savedProfiles, siteProfiles, siteFilter, [tab]]) => {
+  profiles = savedProfiles;
+  if (tab?.url) {
+    try {
+      hostname = new URL(tab.url).hostname;
+    } catch {
+      hostname = "";
+    }
   }
+  siteLabel.textContent = hostname
+    ? `Profile for ${hostname}:`
+    : "Profile for this site:";
+  siteProfileSelect.disabled = !hostname;
+  siteEnabledLabel.textContent = hostname
+    ? `Highlight on ${hostname}:`
+    : "Highlight on this site:";
+  siteEnabledSelect.disabled = !hostname;
+
+  siteProfileSelect.appendChild(new Option("Automatic", ""));
+  profiles.forEach((profile) =>
+    siteProfileSelect.appendChild(new Option(profile.name, profile.id)),
+  );
+  const siteProfile = siteProfiles[hostname];
+  siteProfileSelect.value = profiles.some(({ id }) => id === siteProfile)
+    ? siteProfile
+    : "";
+  const siteEnabled = siteFilter.sites[hostname];
+  siteEnabledSelect.value =
+    siteEnabled === undefined ? "" : siteEnabled ? "on" : "off";
+
+  if (tab?.id) loadPageStats(tab.id);
+});
 
+renderConnectionStatus(connectionStatusDiv);
+renderSyncStatus(syncStatusDiv);
+
+// Site choices apply right away, open tabs of the site redraw
+siteProfileSelect.addEventListener("change", async () => {
+  await setSiteProfile(hostname, siteProfileSelect.value || null);
+});
+
+siteEnabledSelect.addEventListener("change", async () => {
+  await setSiteEnabled(
+    hostname,
+    siteEnabledSelect.value ? siteEnabledSelect.value === "on" : null,
+  );
+});
+
+syncBtn.addEventListener("click", async () => {
+  syncBtn.disabled = true;
+  showStatus(statusDiv, "Syncing with Anki...");
   try {
-    // Save to storage
-    await browser.storage.local.set({ deckName });
-    showStatus("Settings saved! Reloading page...");
-    // Tell background script to refresh
-    await browser.runtime.sendMessage({ action: "refreshWords" });
-
-    // Reload the current active tab
-    const [tab] = await browser.tabs.query({
-      active: true,
-      currentWindow: true,
+    const { count, reports } = await browser.runtime.sendMessage({
+      action: "refreshWords",
     });
-    if (tab?.id) {
-      await browser.tabs.reload(tab.id);
+    const failed = (reports as { error?: string }[]).find(
+      (report) => report.error,
+    );
+    if (failed) {
+      showStatus(statusDiv, `The sync failed: ${failed.error}`, true);
+    } else if (reports.length === 0) {
+      showStatus(statusDiv, "Nothing synced, another sync may be running");
+    } else {
+      showStatus(statusDiv, `${count} words synced`);
     }
   } catch (error) {
-    console.error("Error saving:", error);
-    showStatus("Error saving settings", true);
+    showStatus(statusDiv, `Could not sync: ${(error as Error).message}`, true);
+  } finally {
+    syncBtn.disabled = false;
+    renderConnectionStatus(connectionStatusDiv);
+    renderSyncStatus(syncStatusDiv);
   }
 });
+
+optionsBtn.addEventListener("click", () => {
+  browser.runtime.openOptionsPage();
+  window.close();
+});
@@ -0,0 +1,33 @@
+import { SHADOW_ROOT_EVENT } from "@/utils/shadow-roots";
+
+// Shadow roots attached after a component was added to the page cause no DOM
+// mutation, so the highlighter cannot see them. This runs in the page's world
+// before its scripts and reports each new open shadow root with an event on
+// its host.
+
+export default defineContentScript({
+  matches: ["<all_urls>"],
+  allFrames: true,
+  matchAboutBlank: true,
+  runAt: "document_start",
+  world: "MAIN",
+  main() {
+    const attachShadow = Element.prototype.attachShadow;
+    Element.prototype.attachShadow = function (init: ShadowRootInit) {
+      const root = attachShadow.call(this, init);
+      if (init.mode === "open") {
+        // Components attach in their constructor, usually before they are
+        // connected, so wait until the current task is done
+        queueMicrotask(() =>
+          this.dispatchEvent(
+            new CustomEvent(SHADOW_ROOT_EVENT, {
+              bubbles: true,
+              composed: true,
+            }),
+          ),
+        );
+      }
+      return root;
+    };
+  },
+});
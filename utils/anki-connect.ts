@@ -0,0 +1,170 @@
+import { DEFAULT_ANKI_CONNECT, type AnkiConnectSettings } from "./settings";
+
+interface AnkiConnectResponse {
+  result: any;
+  error: string | null;
+}
+
+export interface ConnectionStatus {
+  connected: boolean;
+  // AnkiConnect API version reported by the handshake
+  version?: number;
+  // Last request, successful or not (ms)
+  checkedAt?: number;
+  lastError?: string;
+  lastErrorAt?: number;
+}
+
+const API_VERSION = 6;
+const REQUEST_TIMEOUT = 30_000;
+const MAX_RETRIES = 2;
+const RETRY_DELAY = 500;
+// Actions that must not run twice when a timed out request did arrive
+const NOT_RETRIED = new Set(["addNote", "answerCards"]);
+
+// Answer buttons of the reviewer, by the ease answerCards takes
+export type AnswerEase = 1 | 2 | 3 | 4;
+
+export const ANSWER_EASES: Record<AnswerEase, string> = {
+  1: "Again",
+  2: "Hard",
+  3: "Good",
+  4: "Easy",
+};
+
+// Network failures and timeouts, worth retrying, unlike errors from Anki
+class ConnectionError extends Error {}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// AnkiConnect client. Requests wait for a requestPermission / version
+// handshake, time out, and are retried with backoff while Anki is unreachable
+export class AnkiConnect {
+  private settings: AnkiConnectSettings = DEFAULT_ANKI_CONNECT;
+  private handshake: Promise<void> | null = null;
+  status: ConnectionStatus = { connected: false };
+
+  configure(settings: AnkiConnectSettings) {
+    this.settings = settings;
+    this.handshake = null;
+    this.status = { connected: false };
+  }
+
+  async request<T = any>(action: string, params: any = {}): Promise<T> {
+    await this.connect();
+    return this.send(action, params);
+  }
+
+  // Handshake once per configuration, again after a failed one
+  connect(): Promise<void> {
+    this.handshake ??= this.performHandshake().catch((error) => {
+      this.handshake = null;
+      throw error;
+    });
+    return this.handshake;
+  }
+
+  // Handshake again, e.g. when the popup asks for the current status
+  async checkConnection(): Promise<ConnectionStatus> {
+    this.handshake = null;
+    try {
+      await this.connect();
+    } catch {
+      // Recorded in the status
+    }
+    return this.status;
+  }
+
+  private async performHandshake() {
+    const permission: {
+      permission: "granted" | "denied";
+      requireApikey?: boolean;
+      version?: number;
+    } = await this.send("requestPermission");
+    if (permission.permission !== "granted") {
+      throw this.fail(
+        new Error("Permission denied, allow this extension in AnkiConnect"),
+      );
+    }
+
+    // Unlike requestPermission, version checks the API key
+    const version: number = await this.send("version");
+    if (version < API_VERSION) {
+      throw this.fail(
+        new Error(`AnkiConnect ${version} is too old, version 6 is required`),
+      );
+    }
+    this.status = { ...this.status, version };
+  }
+
+  private fail(error: Error): Error {
+    this.status = {
+      ...this.status,
+      connected: false,
+      checkedAt: Date.now(),
+      lastError: error.message,
+      lastErrorAt: Date.now(),
+    };
+    return error;
+  }
+
+  private async send<T = any>(action: string, params: any = {}): Promise<T> {
+    const retries = NOT_RETRIED.has(action) ? 0 : MAX_RETRIES;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await this.post(action, params);
+        this.status = {
+          ...this.status,
+          connected: true,
+          checkedAt: Date.now(),
+        };
+        return result;
+      } catch (error) {
+        if (!(error instanceof ConnectionError) || attempt >= retries) {
+          throw this.fail(error as Error);
+        }
+        await delay(RETRY_DELAY * 2 ** attempt);
+      }
+    }
+  }
+
+  private async post(action: string, params: any): Promise<any> {
+    const { url, key } = this.settings;
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action,
+          version: API_VERSION,
+          params,
+          ...(key ? { key } : {}),
+        }),
+        signal: controller.signal,
+      });
+    } catch {
+      throw new ConnectionError(
+        controller.signal.aborted
+          ? `AnkiConnect did not answer within ${REQUEST_TIMEOUT / 1000}s`
+          : `Cannot reach AnkiConnect at ${url}, is Anki running?`,
+      );
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (!response.ok) {
+      throw new Error(`AnkiConnect responded with HTTP ${response.status}`);
+    }
+    const data: AnkiConnectResponse = await response.json();
+    if (data.error) {
+      throw new Error(`AnkiConnect error: ${data.error}`);
+    }
+    return data.result;
+  }
+}
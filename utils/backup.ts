@@ -0,0 +1,164 @@
+import type { CardRecord } from "./db";
+import type { Exposure } from "./exposure";
+import { NEW_CARD_STATS, type WordData } from "./words";
+
+export const BACKUP_FORMAT = "anki-levels-backup";
+// Bump when the layout changes, older files are migrated in parseBackup
+export const BACKUP_VERSION = 3;
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  // browser.storage.local, without the AnkiConnect API key
+  settings: Record<string, unknown>;
+  // Imported word sets keyed by import key. Before version 3 also each
+  // profile's synced words, keyed by profile id.
+  words: Record<string, [string, WordData][]>;
+  // Cards synced for each profile, since version 3
+  cards: CardRecord[];
+  // Database metadata, see isPortableMetadata
+  metadata: Record<string, unknown>;
+  // Words met while reading, since version 2
+  exposures: Exposure[];
+}
+
+// The last sync time describes this machine's Anki collection. Sync state
+// and history are not backed up either, so a restored profile syncs fully
+// once instead of trusting another collection's card ids. Locks belong to
+// the running extension.
+export function isPortableMetadata(key: string): boolean {
+  return key !== "lastSync" && !key.startsWith("lock:");
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Before version 3 synced words were word sets. Words that name their card
+// become cards, which the next sync reads again in full. The others stay a
+// word set of the profile until that sync replaces them.
+function splitSyncedWords(words: Record<string, [string, WordData][]>): {
+  words: Record<string, [string, WordData][]>;
+  cards: CardRecord[];
+} {
+  const wordSets: Record<string, [string, WordData][]> = {};
+  const cards: CardRecord[] = [];
+  Object.entries(words).forEach(([key, entries]) => {
+    if (key.startsWith("import:")) {
+      wordSets[key] = entries;
+      return;
+    }
+    const cardless = entries.filter(([, data]) => data.cardId === undefined);
+    if (cardless.length > 0) wordSets[key] = cardless;
+    entries.forEach(([term, data]) => {
+      if (data.cardId === undefined) return;
+      cards.push({
+        profileId: key,
+        cardId: data.cardId,
+        term,
+        reading: data.reading,
+        meaning: data.meaning,
+        fields: {},
+        sourceIndex: 0,
+        mod: 0,
+        stats: data.stats ?? NEW_CARD_STATS,
+      });
+    });
+  });
+  return { words: wordSets, cards };
+}
+
+// Check a backup file before anything is replaced
+export function parseBackup(text: string): Backup {
+  let backup: unknown;
+  try {
+    backup = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+  if (!isRecord(backup) || backup.format !== BACKUP_FORMAT) {
+    throw new Error("The file is not an Anki Levels backup");
+  }
+  if (typeof backup.version !== "number" || backup.version < 1) {
+    throw new Error("The backup has no valid version");
+  }
+  if (backup.version > BACKUP_VERSION) {
+    throw new Error(
+      `The backup is from a newer version (${backup.version}), update the extension first`,
+    );
+  }
+  // Version 1 had no exposures
+  if (backup.version === 1) backup.exposures = [];
+  if (
+    !isRecord(backup.settings) ||
+    !isRecord(backup.words) ||
+    !isRecord(backup.metadata) ||
+    !Array.isArray(backup.exposures) ||
+    !Object.values(backup.words).every(Array.isArray)
+  ) {
+    throw new Error("The backup is incomplete");
+  }
+  if (backup.version < 3) {
+    Object.assign(backup, splitSyncedWords(backup.words as Backup["words"]));
+  } else if (!Array.isArray(backup.cards)) {
+    throw new Error("The backup is incomplete");
+  }
+  return backup as unknown as Backup;
+}
+
+const CSV_COLUMNS = [
+  "term",
+  "reading",
+  "meaning",
+  "level",
+  "cardId",
+  "interval",
+  "ease",
+  "lapses",
+  "reps",
+  "type",
+  "queue",
+  "due",
+  "lastReview",
+  "stability",
+];
+
+function csvField(value: string | number | undefined): string {
+  if (value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvDate(timestamp: number | undefined): string | undefined {
+  return timestamp === undefined
+    ? undefined
+    : new Date(timestamp).toISOString();
+}
+
+// One row per word. The column names are understood by the importer, so an
+// exported word set can be imported on a machine without Anki.
+export function wordsToCsv(words: [string, WordData][]): string {
+  const rows = words.map(([term, data]) => {
+    const stats = data.stats;
+    return [
+      data.term ?? term,
+      data.reading,
+      data.meaning,
+      Math.round(data.difficultyLevel),
+      data.cardId,
+      stats?.interval,
+      stats?.factor,
+      stats?.lapses,
+      stats?.reps,
+      stats?.type,
+      stats?.queue,
+      csvDate(stats?.due),
+      csvDate(stats?.lastReview),
+      stats?.stability?.toFixed(2),
+    ]
+      .map(csvField)
+      .join(",");
+  });
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
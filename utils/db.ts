@@ -0,0 +1,846 @@
+import { addExposure, type Exposure, type SeenWord } from "./exposure";
+import { DEFAULT_PROFILE_ID } from "./settings";
+import { NEW_CARD_STATS, type CardStats, type WordData } from "./words";
+
+// A card matched by one of a profile's sources, as it was last read from Anki
+export interface CardRecord {
+  profileId: string;
+  cardId: number;
+  // Unknown for cards stored before note ids were kept
+  noteId?: number;
+  term: string;
+  reading?: string;
+  meaning?: string;
+  modelName?: string;
+  // Raw field values of the note
+  fields: Record<string, string>;
+  // Index of the source that matched the card, later sources win a term
+  sourceIndex: number;
+  // Last modification in Anki, seconds since epoch. 0 has it read again at
+  // the next sync
+  mod: number;
+  stats: CardStats;
+  // Added from a page. Kept while no source matches the card, which then
+  // takes it over
+  mined?: boolean;
+}
+
+// Everything a backup restores into the database
+export interface StoredData {
+  // Word sets by key
+  words: Record<string, [string, WordData][]>;
+  cards: CardRecord[];
+  metadata: Record<string, any>;
+  exposures: Exposure[];
+}
+
+// Where a profile's incremental sync continues from
+export interface SyncState {
+  profileId: string;
+  lastSync: number;
+  // Sources and options the cards were read with, see syncSignature
+  signature: string;
+}
+
+export interface SyncReport {
+  time: number;
+  profileId: string;
+  profileName: string;
+  // "failed" syncs leave the stored words as they were
+  mode: "full" | "delta" | "failed";
+  added: number;
+  updated: number;
+  removed: number;
+  total: number;
+  duration: number;
+  error?: string;
+}
+
+// Key range covering every [profileId, ...] key of one profile, in the
+// words, cards and exposures stores.
+// Arrays sort after strings, so [profileId, []] is past every word.
+function profileRange(profileId: string): IDBKeyRange {
+  return IDBKeyRange.bound([profileId], [profileId, []]);
+}
+
+// IndexedDB helper class
+export class AnkiDB {
+  private dbName = "AnkiLevelsDB";
+  private wordsStore = "words";
+  private metadataStore = "metadata";
+  private exposuresStore = "exposures";
+  private cardsStore = "cards";
+  private syncStateStore = "syncState";
+  private syncHistoryStore = "syncHistory";
+  private version = 4;
+  private db: IDBDatabase | null = null;
+
+  async init(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, this.version);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve();
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const transaction = request.transaction!;
+        // Migrations by the version they upgrade to. Each one calls done once
+        // its stores exist, as some read the stores of the one before.
+        const migrations: Record<number, (done: () => void) => void> = {
+          2: (done) => this.migrateToV2(db, transaction, done),
+          3: (done) => {
+            const exposures = db.createObjectStore(this.exposuresStore, {
+              keyPath: ["profileId", "term"],
+            });
+            exposures.createIndex("profileId", "profileId");
+            done();
+          },
+          4: (done) => this.migrateToV4(db, transaction, done),
+        };
+        const migrate = (version: number) => {
+          if (version > this.version) return;
+          if (event.oldVersion < version) {
+            migrations[version](() => migrate(version + 1));
+          } else {
+            migrate(version + 1);
+          }
+        };
+        migrate(2);
+      };
+    });
+  }
+
+  // v1 kept one global word list keyed by word, with metadata mixed in under
+  // a "__metadata_" prefix. v2 keys words by profile and splits out metadata.
+  private migrateToV2(
+    db: IDBDatabase,
+    transaction: IDBTransaction,
+    done: () => void,
+  ) {
+    const createStores = (legacyRecords: any[]) => {
+      if (db.objectStoreNames.contains(this.wordsStore)) {
+        db.deleteObjectStore(this.wordsStore);
+      }
+      const words = db.createObjectStore(this.wordsStore, {
+        keyPath: ["profileId", "word"],
+      });
+      words.createIndex("profileId", "profileId");
+      const metadata = db.createObjectStore(this.metadataStore, {
+        keyPath: "key",
+      });
+
+      legacyRecords.forEach((record) => {
+        if (record.word.startsWith("__metadata_")) {
+          metadata.put({
+            key: record.word.slice("__metadata_".length),
+            value: record.value,
+          });
+        } else {
+          words.put({ ...record, profileId: DEFAULT_PROFILE_ID });
+        }
+      });
+      done();
+    };
+
+    if (db.objectStoreNames.contains(this.wordsStore)) {
+      const request = transaction.objectStore(this.wordsStore).getAll();
+      request.onsuccess = () => createStores(request.result);
+    } else {
+      createStores([]);
+    }
+  }
+
+  // v3 stored each profile's synced words in the words store, with the card
+  // index, sync history and sync state as metadata. v4 keeps one record per
+  // card, so several cards can share a term, and gives sync state and
+  // history their own stores. Words keep their card's modification time, so
+  // the next sync stays incremental.
+  private migrateToV4(
+    db: IDBDatabase,
+    transaction: IDBTransaction,
+    done: () => void,
+  ) {
+    const cards = db.createObjectStore(this.cardsStore, {
+      keyPath: ["profileId", "cardId"],
+    });
+    cards.createIndex("profileId", "profileId");
+    cards.createIndex("term", ["profileId", "term"]);
+    const syncStates = db.createObjectStore(this.syncStateStore, {
+      keyPath: "profileId",
+    });
+    const syncHistory = db.createObjectStore(this.syncHistoryStore, {
+      keyPath: "id",
+      autoIncrement: true,
+    });
+    syncHistory.createIndex("time", "time");
+
+    const metadata = transaction.objectStore(this.metadataStore);
+    const words = transaction.objectStore(this.wordsStore);
+    // Card modification times from the old card index, by profile
+    const modTimes = new Map<string, Record<number, { mod: number }>>();
+
+    const metadataRequest = metadata.getAll();
+    metadataRequest.onsuccess = () => {
+      metadataRequest.result.forEach(({ key, value }) => {
+        if (key.startsWith("syncState:")) {
+          const profileId = key.slice("syncState:".length);
+          modTimes.set(profileId, value.cards ?? {});
+          syncStates.put({
+            profileId,
+            lastSync: value.lastSync,
+            signature: value.signature,
+          } satisfies SyncState);
+          metadata.delete(key);
+        } else if (key === "syncHistory") {
+          // Stored newest first, ids count up
+          [...value].reverse().forEach((report: SyncReport) => {
+            syncHistory.put(report);
+          });
+          metadata.delete(key);
+        }
+      });
+
+      const wordsRequest = words.getAll();
+      wordsRequest.onsuccess = () => {
+        wordsRequest.result.forEach((record) => {
+          // Imported files stay word sets, and so do words from before
+          // card ids were kept until the first sync replaces them. Without
+          // a card to compare, that sync is a full one
+          if (record.profileId.startsWith("import:")) return;
+          if (record.cardId === undefined) return;
+          words.delete([record.profileId, record.word]);
+          cards.put({
+            profileId: record.profileId,
+            cardId: record.cardId,
+            term: record.word,
+            reading: record.reading,
+            meaning: record.meaning,
+            fields: {},
+            sourceIndex: 0,
+            // Words from before card stats were kept are read again
+            mod: record.stats
+              ? (modTimes.get(record.profileId)?.[record.cardId]?.mod ?? 0)
+              : 0,
+            stats: record.stats ?? NEW_CARD_STATS,
+          } satisfies CardRecord);
+        });
+        done();
+      };
+    };
+  }
+
+  async saveWords(
+    profileId: string,
+    words: Map<string, WordData>,
+  ): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.wordsStore], "readwrite");
+      const store = transaction.objectStore(this.wordsStore);
+
+      // Clear existing data of this profile
+      store.delete(profileRange(profileId));
+
+      // Add all words
+      words.forEach((data, word) => {
+        store.put({ profileId, word, ...data });
+      });
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Write and delete single words of a profile, leaving the rest untouched
+  async updateWords(
+    profileId: string,
+    upserts: Map<string, WordData>,
+    deletes: string[],
+  ): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.wordsStore], "readwrite");
+      const store = transaction.objectStore(this.wordsStore);
+
+      deletes.forEach((word) => store.delete([profileId, word]));
+      upserts.forEach((data, word) => {
+        store.put({ profileId, word, ...data });
+      });
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async getWords(profileId: string): Promise<Map<string, WordData> | null> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.wordsStore], "readonly");
+      const store = transaction.objectStore(this.wordsStore);
+      const request = store.getAll(profileRange(profileId));
+
+      request.onsuccess = () => {
+        const results = request.result;
+        if (results.length === 0) {
+          resolve(null);
+        } else {
+          const wordMap = new Map<string, WordData>();
+          results.forEach((item: any) => {
+            wordMap.set(item.word, {
+              difficultyLevel: item.difficultyLevel,
+              reading: item.reading,
+              meaning: item.meaning,
+              cardId: item.cardId,
+              stats: item.stats,
+            });
+          });
+          resolve(wordMap);
+        }
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async deleteWords(profileId: string): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.wordsStore], "readwrite");
+      transaction.objectStore(this.wordsStore).delete(profileRange(profileId));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Keys of every stored word set: imported files, and profiles with words
+  // from before card ids were kept
+  async getWordSetKeys(): Promise<string[]> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.wordsStore], "readonly");
+      const index = transaction.objectStore(this.wordsStore).index("profileId");
+      const request = index.openKeyCursor(null, "nextunique");
+      const profileIds: string[] = [];
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          profileIds.push(cursor.key as string);
+          cursor.continue();
+        } else {
+          resolve(profileIds);
+        }
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async saveMetadata(key: string, value: any): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(
+        [this.metadataStore],
+        "readwrite",
+      );
+      const store = transaction.objectStore(this.metadataStore);
+      store.put({ key, value });
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async deleteMetadata(key: string): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(
+        [this.metadataStore],
+        "readwrite",
+      );
+      transaction.objectStore(this.metadataStore).delete(key);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async getMetadata(key: string): Promise<any> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(
+        [this.metadataStore],
+        "readonly",
+      );
+      const store = transaction.objectStore(this.metadataStore);
+      const request = store.get(key);
+
+      request.onsuccess = () => {
+        resolve(request.result?.value);
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getAllMetadata(): Promise<Record<string, any>> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(
+        [this.metadataStore],
+        "readonly",
+      );
+      const request = transaction.objectStore(this.metadataStore).getAll();
+
+      request.onsuccess = () => {
+        resolve(
+          Object.fromEntries(
+            request.result.map((item: any) => [item.key, item.value]),
+          ),
+        );
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Take or renew a lock shared by every background instance. A lock whose
+  // holder stopped without releasing it expires after the timeout.
+  async acquireLock(
+    name: string,
+    owner: string,
+    timeout: number,
+  ): Promise<boolean> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(
+        [this.metadataStore],
+        "readwrite",
+      );
+      const store = transaction.objectStore(this.metadataStore);
+      const key = `lock:${name}`;
+      const now = Date.now();
+      let acquired = false;
+
+      // Read and write in one transaction, so two instances cannot both win
+      const request = store.get(key);
+      request.onsuccess = () => {
+        const lock: { owner: string; expiresAt: number } | undefined =
+          request.result?.value;
+        if (lock && lock.owner !== owner && lock.expiresAt > now) return;
+        acquired = true;
+        store.put({ key, value: { owner, expiresAt: now + timeout } });
+      };
+
+      transaction.oncomplete = () => resolve(acquired);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async releaseLock(name: string, owner: string): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(
+        [this.metadataStore],
+        "readwrite",
+      );
+      const store = transaction.objectStore(this.metadataStore);
+      const key = `lock:${name}`;
+
+      const request = store.get(key);
+      request.onsuccess = () => {
+        if (request.result?.value.owner === owner) store.delete(key);
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Whether someone holds a lock that has not expired
+  async isLocked(name: string): Promise<boolean> {
+    const lock = await this.getMetadata(`lock:${name}`);
+    return !!lock && lock.expiresAt > Date.now();
+  }
+
+  async getCards(profileId: string): Promise<CardRecord[]> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.cardsStore], "readonly");
+      const request = transaction
+        .objectStore(this.cardsStore)
+        .getAll(profileRange(profileId));
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Cards of a profile sharing a term, through the term index
+  async getCardsByTerm(profileId: string, term: string): Promise<CardRecord[]> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.cardsStore], "readonly");
+      const request = transaction
+        .objectStore(this.cardsStore)
+        .index("term")
+        .getAll([profileId, term]);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Write and delete single cards of a profile, leaving the rest untouched
+  async updateCards(
+    profileId: string,
+    upserts: CardRecord[],
+    deletes: number[],
+  ): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.cardsStore], "readwrite");
+      const store = transaction.objectStore(this.cardsStore);
+
+      deletes.forEach((cardId) => store.delete([profileId, cardId]));
+      upserts.forEach((card) => store.put({ ...card, profileId }));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async deleteCards(profileId: string): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.cardsStore], "readwrite");
+      transaction.objectStore(this.cardsStore).delete(profileRange(profileId));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Ids of every profile with stored cards
+  async getCardProfileIds(): Promise<string[]> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.cardsStore], "readonly");
+      const index = transaction.objectStore(this.cardsStore).index("profileId");
+      const request = index.openKeyCursor(null, "nextunique");
+      const profileIds: string[] = [];
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          profileIds.push(cursor.key as string);
+          cursor.continue();
+        } else {
+          resolve(profileIds);
+        }
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getSyncState(profileId: string): Promise<SyncState | undefined> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(
+        [this.syncStateStore],
+        "readonly",
+      );
+      const request = transaction
+        .objectStore(this.syncStateStore)
+        .get(profileId);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async saveSyncState(state: SyncState): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(
+        [this.syncStateStore],
+        "readwrite",
+      );
+      transaction.objectStore(this.syncStateStore).put(state);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async deleteSyncState(profileId: string): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(
+        [this.syncStateStore],
+        "readwrite",
+      );
+      transaction.objectStore(this.syncStateStore).delete(profileId);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Append reports, keeping only the newest ones
+  async addSyncReports(reports: SyncReport[], limit: number): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(
+        [this.syncHistoryStore],
+        "readwrite",
+      );
+      const store = transaction.objectStore(this.syncHistoryStore);
+      reports.forEach((report) => store.add(report));
+
+      // Oldest first, past the ones to keep
+      const countRequest = store.count();
+      countRequest.onsuccess = () => {
+        let excess = countRequest.result - limit;
+        if (excess <= 0) return;
+        const cursorRequest = store.openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor || excess-- <= 0) return;
+          cursor.delete();
+          cursor.continue();
+        };
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Newest first
+  async getSyncHistory(): Promise<SyncReport[]> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(
+        [this.syncHistoryStore],
+        "readonly",
+      );
+      const request = transaction.objectStore(this.syncHistoryStore).getAll();
+
+      request.onsuccess = () =>
+        resolve(
+          request.result
+            .reverse()
+            .map(({ id: _id, ...report }) => report as SyncReport),
+        );
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Count a page visit for each word seen on it
+  async recordExposures(
+    profileId: string,
+    seen: SeenWord[],
+    page: { url: string; title: string },
+    time: number,
+  ): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(
+        [this.exposuresStore],
+        "readwrite",
+      );
+      const store = transaction.objectStore(this.exposuresStore);
+
+      seen.forEach((word) => {
+        const request = store.get([profileId, word.term]);
+        request.onsuccess = () => {
+          store.put(addExposure(request.result, profileId, word, page, time));
+        };
+      });
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Exposures of a profile, only those of the given terms if any
+  async getExposures(profileId: string, terms?: string[]): Promise<Exposure[]> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(
+        [this.exposuresStore],
+        "readonly",
+      );
+      const store = transaction.objectStore(this.exposuresStore);
+
+      if (!terms) {
+        const request = store.getAll(profileRange(profileId));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        return;
+      }
+
+      const exposures: Exposure[] = [];
+      terms.forEach((term) => {
+        const request = store.get([profileId, term]);
+        request.onsuccess = () => {
+          if (request.result) exposures.push(request.result);
+        };
+      });
+      transaction.oncomplete = () => resolve(exposures);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Write exposures as they are, e.g. from a backup
+  async saveExposures(exposures: Exposure[]): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(
+        [this.exposuresStore],
+        "readwrite",
+      );
+      const store = transaction.objectStore(this.exposuresStore);
+      exposures.forEach((exposure) => store.put(exposure));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async deleteExposures(profileId: string): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(
+        [this.exposuresStore],
+        "readwrite",
+      );
+      transaction
+        .objectStore(this.exposuresStore)
+        .delete(profileRange(profileId));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Ids of every profile with recorded exposures
+  async getExposureProfileIds(): Promise<string[]> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(
+        [this.exposuresStore],
+        "readonly",
+      );
+      const index = transaction
+        .objectStore(this.exposuresStore)
+        .index("profileId");
+      const request = index.openKeyCursor(null, "nextunique");
+      const profileIds: string[] = [];
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          profileIds.push(cursor.key as string);
+          cursor.continue();
+        } else {
+          resolve(profileIds);
+        }
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Number of records in each store
+  async countRecords(): Promise<Record<string, number>> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const stores = Array.from(this.db!.objectStoreNames);
+      const transaction = this.db!.transaction(stores, "readonly");
+      const counts: Record<string, number> = {};
+      stores.forEach((store) => {
+        const request = transaction.objectStore(store).count();
+        request.onsuccess = () => (counts[store] = request.result);
+      });
+
+      transaction.oncomplete = () => resolve(counts);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Replace every store's contents, e.g. when restoring a backup. One
+  // transaction, so a failed write leaves everything as it was. Locks are
+  // kept, their holders are still running.
+  async replaceAll(data: StoredData): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const stores = [
+        this.wordsStore,
+        this.metadataStore,
+        this.exposuresStore,
+        this.cardsStore,
+        this.syncStateStore,
+        this.syncHistoryStore,
+      ];
+      const transaction = this.db!.transaction(stores, "readwrite");
+      const metadata = transaction.objectStore(this.metadataStore);
+
+      const locksRequest = metadata.getAll();
+      locksRequest.onsuccess = () => {
+        const locks = locksRequest.result.filter(({ key }) =>
+          key.startsWith("lock:"),
+        );
+        stores.forEach((store) => transaction.objectStore(store).clear());
+        locks.forEach((lock) => metadata.put(lock));
+
+        const words = transaction.objectStore(this.wordsStore);
+        Object.entries(data.words).forEach(([profileId, entries]) =>
+          entries.forEach(([word, wordData]) =>
+            words.put({ profileId, word, ...wordData }),
+          ),
+        );
+        const cards = transaction.objectStore(this.cardsStore);
+        data.cards.forEach((card) => cards.put(card));
+        Object.entries(data.metadata).forEach(([key, value]) =>
+          metadata.put({ key, value }),
+        );
+        const exposures = transaction.objectStore(this.exposuresStore);
+        data.exposures.forEach((exposure) => exposures.put(exposure));
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
@@ -0,0 +1,101 @@
+import type { WordData } from "./words";
+
+// Where a word was met while reading
+export interface ExposureSample {
+  sentence: string;
+  url: string;
+  title: string;
+  time: number;
+}
+
+// How often a deck word of a profile was met on web pages
+export interface Exposure {
+  profileId: string;
+  term: string;
+  // Page visits the word was seen on
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+  // Most recent first, one per page
+  samples: ExposureSample[];
+}
+
+// A word that was on screen, reported once per page visit
+export interface SeenWord {
+  term: string;
+  sentence: string;
+}
+
+const SAMPLE_LIMIT = 3;
+// Sentences are cut at punctuation, which some pages have little of
+const SENTENCE_LIMIT = 300;
+
+// Count one more page visit, keeping the newest sample of each page
+export function addExposure(
+  exposure: Exposure | undefined,
+  profileId: string,
+  seen: SeenWord,
+  page: { url: string; title: string },
+  time: number,
+): Exposure {
+  const sample: ExposureSample = {
+    sentence: seen.sentence.slice(0, SENTENCE_LIMIT),
+    url: page.url,
+    title: page.title,
+    time,
+  };
+  if (!exposure) {
+    return {
+      profileId,
+      term: seen.term,
+      count: 1,
+      firstSeen: time,
+      lastSeen: time,
+      samples: [sample],
+    };
+  }
+  return {
+    ...exposure,
+    count: exposure.count + 1,
+    lastSeen: time,
+    samples: [
+      sample,
+      ...exposure.samples.filter(({ url }) => url !== page.url),
+    ].slice(0, SAMPLE_LIMIT),
+  };
+}
+
+export interface ExposureReportRow extends Exposure {
+  reading?: string;
+  difficultyLevel: number;
+  priority: number;
+}
+
+// Words met often but still scored low are the ones worth studying first
+export function exposurePriority(
+  count: number,
+  difficultyLevel: number,
+): number {
+  return count * (1 - difficultyLevel / 100);
+}
+
+// Exposures of words still in the deck, highest priority first
+export function buildExposureReport(
+  exposures: Exposure[],
+  words: Map<string, WordData>,
+): ExposureReportRow[] {
+  return exposures
+    .flatMap((exposure) => {
+      const data = words.get(exposure.term);
+      if (!data) return [];
+      return [
+        {
+          ...exposure,
+          reading: data.reading,
+          difficultyLevel: data.difficultyLevel,
+          priority: exposurePriority(exposure.count, data.difficultyLevel),
+        },
+      ];
+    })
+    .sort((a, b) => b.priority - a.priority || b.lastSeen - a.lastSeen);
+}
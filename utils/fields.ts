@@ -0,0 +1,116 @@
+export interface FieldMapping {
+  term: string;
+  reading?: string;
+  meaning?: string;
+}
+
+// Field names tried, in order, when a note type has no explicit mapping
+export const DEFAULT_TERM_FIELDS = [
+  "Expression",
+  "Word",
+  "Vocab",
+  "Kanji",
+  "Front",
+];
+export const DEFAULT_READING_FIELDS = ["Reading", "Kana", "Furigana"];
+export const DEFAULT_MEANING_FIELDS = ["Meaning", "Definition", "Back"];
+
+const HTML_ENTITIES: Record<string, string> = {
+  nbsp: " ",
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+// Anki's own furigana syntax: " 漢字[かんじ]", the leading space separates segments
+const FURIGANA_PATTERN = / ?([^ >[\]]+?)\[(.+?)\]/g;
+
+// Strip HTML tags, sound/image references and entities from a field value.
+// Runs in the service worker, so no DOMParser here.
+export function stripHtml(value: string): string {
+  return value
+    .replace(/<br\s*\/?>/gi, " ")
+    .replace(/<[^>]*>/g, "")
+    .replace(/\[sound:[^\]]*\]/g, "")
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === "#") {
+        const charCode =
+          code[1] === "x" || code[1] === "X"
+            ? parseInt(code.slice(2), 16)
+            : parseInt(code.slice(1), 10);
+        return Number.isNaN(charCode) ? entity : String.fromCodePoint(charCode);
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Field values are HTML, so plain text has to be escaped before adding notes
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// 漢字[かんじ] -> 漢字
+export function stripFurigana(value: string): string {
+  return value.replace(FURIGANA_PATTERN, "$1").trim();
+}
+
+// 漢字[かんじ] -> かんじ
+export function furiganaReading(value: string): string {
+  return value.replace(FURIGANA_PATTERN, "$2").replace(/ /g, "").trim();
+}
+
+export function hasFurigana(value: string): boolean {
+  FURIGANA_PATTERN.lastIndex = 0;
+  return FURIGANA_PATTERN.test(value);
+}
+
+// Pick the mapping for a note type, falling back to well-known field names
+export function resolveFieldMapping(
+  fieldNames: string[],
+  mapping?: FieldMapping,
+): FieldMapping | null {
+  if (mapping && fieldNames.includes(mapping.term)) return mapping;
+
+  const term = DEFAULT_TERM_FIELDS.find((name) => fieldNames.includes(name));
+  if (!term) return null;
+  return {
+    term,
+    reading: DEFAULT_READING_FIELDS.find((name) => fieldNames.includes(name)),
+    meaning: DEFAULT_MEANING_FIELDS.find((name) => fieldNames.includes(name)),
+  };
+}
+
+// Extract the term, reading and meaning of a note using a field mapping
+export function extractNoteFields(
+  fields: Record<string, { value: string } | undefined>,
+  mapping: FieldMapping,
+): { term: string; reading?: string; meaning?: string } | null {
+  const rawTerm = stripHtml(fields[mapping.term]?.value ?? "");
+  const term = stripFurigana(rawTerm);
+  if (!term) return null;
+
+  let reading: string | undefined;
+  if (mapping.reading) {
+    reading = furiganaReading(stripHtml(fields[mapping.reading]?.value ?? ""));
+  } else if (hasFurigana(rawTerm)) {
+    reading = furiganaReading(rawTerm);
+  }
+
+  const meaning = mapping.meaning
+    ? stripHtml(fields[mapping.meaning]?.value ?? "")
+    : undefined;
+
+  return {
+    term,
+    reading: reading || undefined,
+    meaning: meaning || undefined,
+  };
+}
@@ -0,0 +1,387 @@
+import { unzipSync } from "fflate";
+import { decompress } from "fzstd";
+import type { Database } from "sql.js";
+import wasmUrl from "sql.js/dist/sql-wasm-browser.wasm?url";
+import {
+  extractNoteFields,
+  resolveFieldMapping,
+  type FieldMapping,
+} from "./fields";
+import { lastReviewStats, type ReviewLogEntry } from "./scoring";
+import type { Profile } from "./settings";
+import type { CardStats } from "./words";
+
+export type ImportFormat = "csv" | "tsv" | "apkg";
+
+// A word set imported from a file, kept next to the words synced from Anki
+export interface ImportSource {
+  id: string;
+  // File name, importing a file of the same name replaces the set
+  name: string;
+  format: ImportFormat;
+  importedAt: number;
+  count: number;
+}
+
+// A word read from a file, scored with the profile's scorer when stored
+export interface ImportedWord {
+  term: string;
+  reading?: string;
+  meaning?: string;
+  stats: CardStats;
+}
+
+type Column =
+  "term" | "reading" | "meaning" | "interval" | "ease" | "lapses" | "reps";
+
+// Header names recognized in text files, lower case
+const COLUMN_NAMES: Record<Column, string[]> = {
+  term: ["term", "word", "expression", "vocab", "kanji", "front"],
+  reading: ["reading", "kana", "furigana"],
+  meaning: ["meaning", "definition", "back"],
+  interval: ["interval", "ivl"],
+  ease: ["ease", "factor"],
+  lapses: ["lapses"],
+  reps: ["reps", "reviews", "repetitions"],
+};
+
+// Column order of files without a header row
+const POSITIONAL_COLUMNS: Column[] = [
+  "term",
+  "reading",
+  "interval",
+  "ease",
+  "lapses",
+  "reps",
+];
+
+// Anki's plain text export separators
+const SEPARATORS: Record<string, string> = {
+  tab: "\t",
+  comma: ",",
+  semicolon: ";",
+  pipe: "|",
+};
+
+// Interval units as shown in Anki's browser, in days
+const INTERVAL_UNITS: [RegExp, number][] = [
+  [/^(d|days?)$/, 1],
+  [/^(w|wks?|weeks?)$/, 7],
+  [/^(mo|mos|months?)$/, 30],
+  [/^(y|yrs?|years?)$/, 365],
+];
+
+// Split delimited text into rows, with RFC 4180 quoting
+function parseDelimited(text: string, separator: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+// "12", "12d", "3 weeks" or "1.5 mo" in days; learning steps count as 0
+function parseInterval(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([a-z]*)\.?$/i);
+  if (!match) return 0;
+  const amount = parseFloat(match[1]);
+  const unit = match[2].toLowerCase();
+  if (!unit) return amount;
+  const found = INTERVAL_UNITS.find(([pattern]) => pattern.test(unit));
+  return found ? Math.round(amount * found[1]) : 0;
+}
+
+// "250%", "2.5", "250" or "2500" as permille
+function parseEase(value: string): number {
+  const amount = parseFloat(value);
+  if (Number.isNaN(amount) || amount <= 0) return 0;
+  if (value.trim().endsWith("%")) return Math.round(amount * 10);
+  if (amount < 10) return Math.round(amount * 1000);
+  return Math.round(amount < 1000 ? amount * 10 : amount);
+}
+
+function parseCount(value: string): number {
+  const amount = parseInt(value, 10);
+  return Number.isNaN(amount) ? 0 : amount;
+}
+
+// Match header cells to columns, null when the row holds no known name
+function headerColumns(cells: string[]): (Column | null)[] | null {
+  const columns = cells.map((cell) => {
+    const name = cell.trim().toLowerCase();
+    const column = Object.entries(COLUMN_NAMES).find(([, names]) =>
+      names.includes(name),
+    );
+    return column ? (column[0] as Column) : null;
+  });
+  return columns.includes("term") ? columns : null;
+}
+
+// TSV/CSV exports, e.g. Anki's "Notes in Plain Text" or a spreadsheet of the
+// browser's columns. Without a review log, reviewed cards count as reviewed
+// at the time of the import.
+export function parseDelimitedWords(
+  text: string,
+  importedAt = Date.now(),
+): { format: ImportFormat; words: ImportedWord[] } {
+  // Anki writes "#key:value" directives before the notes
+  const directives: Record<string, string> = {};
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  let start = 0;
+  while (start < lines.length && /^#\w+:/.test(lines[start])) {
+    const [key, ...value] = lines[start].slice(1).split(":");
+    directives[key.toLowerCase()] = value.join(":").trim();
+    start++;
+  }
+  const body = lines.slice(start).join("\n");
+
+  const separator =
+    SEPARATORS[directives.separator?.toLowerCase()] ??
+    (body.split("\n", 1)[0].includes("\t") ? "\t" : ",");
+  const rows = parseDelimited(body, separator);
+
+  let columns: (Column | null)[] = POSITIONAL_COLUMNS;
+  if (directives.columns) {
+    columns =
+      headerColumns(parseDelimited(directives.columns, separator)[0] ?? []) ??
+      columns;
+  } else if (rows.length > 0) {
+    const header = headerColumns(rows[0]);
+    if (header) {
+      columns = header;
+      rows.shift();
+    }
+  }
+
+  const words: ImportedWord[] = [];
+  rows.forEach((cells) => {
+    const values: Partial<Record<Column, string>> = {};
+    columns.forEach((column, index) => {
+      if (column && cells[index]?.trim()) values[column] = cells[index];
+    });
+
+    // Without a reading, furigana in the term is used instead
+    const mapping: FieldMapping = {
+      term: "term",
+      reading: values.reading ? "reading" : undefined,
+      meaning: values.meaning ? "meaning" : undefined,
+    };
+    const note = extractNoteFields(
+      {
+        term: { value: values.term ?? "" },
+        reading: { value: values.reading ?? "" },
+        meaning: { value: values.meaning ?? "" },
+      },
+      mapping,
+    );
+    if (!note) return;
+
+    const interval = parseInterval(values.interval ?? "");
+    const reps = parseCount(values.reps ?? "");
+    const type = interval > 0 ? 2 : reps > 0 ? 1 : 0;
+    words.push({
+      ...note,
+      stats: {
+        interval,
+        factor: parseEase(values.ease ?? ""),
+        reps,
+        lapses: parseCount(values.lapses ?? ""),
+        type,
+        queue: type,
+        lastReview: type === 0 ? undefined : importedAt,
+      },
+    });
+  });
+  return { format: separator === "\t" ? "tsv" : "csv", words };
+}
+
+function selectAll(db: Database, sql: string): any[][] {
+  return db.exec(sql)[0]?.values ?? [];
+}
+
+// Field names of each note type, by note type id
+function noteTypes(
+  db: Database,
+): Map<number, { name: string; fields: string[] }> {
+  const types = new Map<number, { name: string; fields: string[] }>();
+  const hasTable = selectAll(
+    db,
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'notetypes'",
+  ).length;
+
+  if (hasTable) {
+    // Anki 2.1.28+ schema
+    selectAll(db, "SELECT id, name FROM notetypes").forEach(([id, name]) =>
+      types.set(id, { name, fields: [] }),
+    );
+    selectAll(db, "SELECT ntid, name FROM fields ORDER BY ntid, ord").forEach(
+      ([id, name]) => types.get(id)?.fields.push(name),
+    );
+  } else {
+    // Older collections keep note types as JSON in the col table
+    const [[models]] = selectAll(db, "SELECT models FROM col");
+    Object.values(
+      JSON.parse(models) as Record<
+        string,
+        { id: number; name: string; flds: { name: string; ord: number }[] }
+      >,
+    ).forEach(({ id, name, flds }) =>
+      types.set(Number(id), {
+        name,
+        fields: [...flds]
+          .sort((a, b) => a.ord - b.ord)
+          .map((field) => field.name),
+      }),
+    );
+  }
+  return types;
+}
+
+async function openCollection(data: ArrayBuffer): Promise<Database> {
+  const files = unzipSync(new Uint8Array(data), {
+    filter: ({ name }) => name.startsWith("collection."),
+  });
+  // Since Anki 2.1.50 packages hold a zstd compressed collection, next to a
+  // legacy one that only says to update Anki
+  const compressed = files["collection.anki21b"];
+  const collection: Uint8Array | undefined = compressed
+    ? decompress(compressed)
+    : (files["collection.anki21"] ?? files["collection.anki2"]);
+  if (!collection) throw new Error("No Anki collection in this file");
+
+  const { default: initSqlJs } = await import("sql.js");
+  const SQL = await initSqlJs({ locateFile: () => wasmUrl });
+  return new SQL.Database(collection);
+}
+
+// Anki packages (.apkg) and collection backups (.colpkg), read locally with
+// the profile's field mappings and the same card stats as a sync
+export async function parseAnkiPackage(
+  data: ArrayBuffer,
+  profile: Profile,
+): Promise<ImportedWord[]> {
+  const db = await openCollection(data);
+  try {
+    const types = noteTypes(db);
+    const fieldMappings: Record<string, FieldMapping> = Object.assign(
+      {},
+      ...profile.sources.map((source) => source.fieldMappings),
+    );
+    // Day-number due dates count from the collection's creation
+    const [[created]] = selectAll(db, "SELECT crt FROM col");
+
+    const reviews = new Map<number, ReviewLogEntry[]>();
+    selectAll(db, "SELECT cid, id, ease, ivl FROM revlog ORDER BY id").forEach(
+      ([cardId, id, ease, ivl]) => {
+        if (!reviews.has(cardId)) reviews.set(cardId, []);
+        reviews.get(cardId)!.push({ id, ease, ivl });
+      },
+    );
+
+    const words: ImportedWord[] = [];
+    selectAll(
+      db,
+      `SELECT cards.id, notes.mid, notes.flds, cards.type, cards.queue,
+        cards.due, cards.ivl, cards.factor, cards.reps, cards.lapses, cards.mod
+      FROM cards JOIN notes ON notes.id = cards.nid`,
+    ).forEach(
+      ([
+        cardId,
+        typeId,
+        flds,
+        type,
+        queue,
+        due,
+        ivl,
+        factor,
+        reps,
+        lapses,
+        mod,
+      ]) => {
+        const noteType = types.get(typeId);
+        if (!noteType) return;
+
+        const mapping =
+          resolveFieldMapping(noteType.fields, fieldMappings[noteType.name]) ??
+          ({ term: noteType.fields[0] } satisfies FieldMapping);
+        const values: string[] = flds.split("\x1f");
+        const note = extractNoteFields(
+          Object.fromEntries(
+            noteType.fields.map((name, index) => [
+              name,
+              { value: values[index] ?? "" },
+            ]),
+          ),
+          mapping,
+        );
+        if (!note) return;
+
+        const stats: CardStats = {
+          interval: ivl > 0 ? ivl : 0,
+          factor: factor || 0,
+          reps: reps || 0,
+          lapses: lapses || 0,
+          type,
+          queue,
+          lastReview: mod ? mod * 1000 : undefined,
+        };
+        const lastReview = lastReviewStats(
+          reviews.get(cardId),
+          profile.scoring.fsrs.desiredRetention,
+        );
+        if (lastReview) Object.assign(stats, lastReview);
+        if (queue === 1) {
+          stats.due = due * 1000;
+        } else if (type !== 0) {
+          stats.due = (created + due * 86400) * 1000;
+        }
+        words.push({ ...note, stats });
+      },
+    );
+    return words;
+  } finally {
+    db.close();
+  }
+}
+
+export async function readImportFile(
+  file: File,
+  profile: Profile,
+): Promise<{ format: ImportFormat; words: ImportedWord[] }> {
+  if (/\.(apkg|colpkg)$/i.test(file.name)) {
+    const words = await parseAnkiPackage(await file.arrayBuffer(), profile);
+    return { format: "apkg", words };
+  }
+  return parseDelimitedWords(await file.text());
+}
@@ -0,0 +1,183 @@
+import type { Matcher } from "../matcher";
+
+export interface DeinflectionRule {
+  // Suffix of the inflected form and the suffix that replaces it
+  suffixIn: string;
+  suffixOut: string;
+  // Word classes the inflected form behaves as. Empty means the form cannot
+  // be inflected further, so the rule only applies to the original text.
+  conditionsIn: string[];
+  // Word classes of the deinflected form
+  conditionsOut: string[];
+}
+
+export interface InflectionRuleSet {
+  language: string;
+  name: string;
+  // Word classes a dictionary form can belong to
+  dictionaryConditions: string[];
+  // Rules keyed by the name of the inflection they undo
+  rules: Record<string, DeinflectionRule[]>;
+}
+
+export interface Deinflection {
+  term: string;
+  conditions: string[];
+  // Inflections undone, in the order they apply to the dictionary form
+  reasons: string[];
+}
+
+// Guards against rule sets whose rules feed each other endlessly
+const MAX_DEINFLECTIONS = 256;
+
+// Undo inflections breadth-first, Yomichan style. Every intermediate form is
+// returned; callers check the candidates against their word list.
+export function deinflect(
+  source: string,
+  ruleSet: InflectionRuleSet,
+): Deinflection[] {
+  const results: Deinflection[] = [
+    { term: source, conditions: [], reasons: [] },
+  ];
+
+  for (let i = 0; i < results.length && i < MAX_DEINFLECTIONS; i++) {
+    const { term, conditions, reasons } = results[i];
+
+    for (const [reason, rules] of Object.entries(ruleSet.rules)) {
+      for (const rule of rules) {
+        const applies =
+          i === 0
+            ? true
+            : rule.conditionsIn.some((condition) =>
+                conditions.includes(condition),
+              );
+        if (!applies || !term.endsWith(rule.suffixIn)) continue;
+
+        const stemLength = term.length - rule.suffixIn.length;
+        if (stemLength + rule.suffixOut.length === 0) continue;
+
+        results.push({
+          term: term.slice(0, stemLength) + rule.suffixOut,
+          conditions: rule.conditionsOut,
+          reasons: [reason, ...reasons],
+        });
+      }
+    }
+  }
+
+  return results;
+}
+
+export interface InflectedMatch {
+  index: number;
+  length: number;
+  // Dictionary form found in the word list
+  lemma: string;
+  reasons: string[];
+}
+
+// Inflected forms rarely add more than this many characters to the stem
+const MAX_INFLECTION_LENGTH = 12;
+
+// Build a matcher that finds inflected forms of the words of a word matcher.
+// Only positions where a known stem starts are deinflected, which keeps the
+// scan cheap on long text.
+export function createInflectionMatcher(
+  words: Matcher,
+  ruleSet: InflectionRuleSet,
+): (text: string) => InflectedMatch[] {
+  const dictionaryConditions = new Set(ruleSet.dictionaryConditions);
+
+  // Stems are what is left of a word once a dictionary ending is removed
+  const endings = new Set<string>();
+  Object.values(ruleSet.rules).forEach((rules) =>
+    rules.forEach((rule) => {
+      if (
+        rule.suffixOut &&
+        rule.conditionsOut.some((condition) =>
+          dictionaryConditions.has(condition),
+        )
+      ) {
+        endings.add(rule.suffixOut);
+      }
+    }),
+  );
+
+  const isWord = (word: string) => words.indexOf(word) >= 0;
+  // A stem is text that some word starts with and that one of the endings
+  // completes to a word. The matcher's states are the prefixes of its words,
+  // so stems are remembered by state.
+  const endingList = Array.from(endings);
+  const stemStates = new Map<number, boolean>();
+  const isStem = (state: number) => {
+    let stem = stemStates.get(state);
+    if (stem === undefined) {
+      stem = endingList.some(
+        (ending) => words.wordAt(words.walk(ending, state)) >= 0,
+      );
+      stemStates.set(state, stem);
+    }
+    return stem;
+  };
+
+  return (text: string) => {
+    const matches: InflectedMatch[] = [];
+    if (endings.size === 0) return matches;
+
+    for (let index = 0; index < text.length; index++) {
+      let found: InflectedMatch | null = null;
+
+      // States of the text from here that words start with, one per length
+      const prefixes: number[] = [];
+      let state = 0;
+      for (let i = index; i < text.length; i++) {
+        state = words.walk(text[i], state);
+        if (state < 0) break;
+        prefixes.push(state);
+      }
+
+      for (
+        let stemLength = prefixes.length;
+        stemLength > 0 && !found;
+        stemLength--
+      ) {
+        if (!isStem(prefixes[stemLength - 1])) continue;
+
+        // Longest inflected form first
+        const maxLength = Math.min(
+          text.length - index,
+          stemLength + MAX_INFLECTION_LENGTH,
+        );
+        for (let length = maxLength; length > stemLength; length--) {
+          const surface = text.slice(index, index + length);
+          // Exact matches are found elsewhere
+          if (isWord(surface)) continue;
+          const candidate = deinflect(surface, ruleSet).find(
+            (result) =>
+              result.reasons.length > 0 &&
+              isWord(result.term) &&
+              result.conditions.some((condition) =>
+                dictionaryConditions.has(condition),
+              ),
+          );
+          if (candidate) {
+            found = {
+              index,
+              length,
+              lemma: candidate.term,
+              reasons: candidate.reasons,
+            };
+            break;
+          }
+        }
+      }
+
+      if (found) {
+        matches.push(found);
+        index += found.length - 1;
+      }
+    }
+
+    return matches;
+  };
+}
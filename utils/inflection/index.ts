@@ -0,0 +1,15 @@
+import type { InflectionRuleSet } from "./deinflect";
+import { japaneseRules } from "./japanese";
+
+export {
+  createInflectionMatcher,
+  deinflect,
+  type Deinflection,
+  type InflectedMatch,
+  type InflectionRuleSet,
+} from "./deinflect";
+
+// Inflection rule sets by language code. Add new languages here.
+export const INFLECTION_RULE_SETS: Record<string, InflectionRuleSet> = {
+  ja: japaneseRules,
+};
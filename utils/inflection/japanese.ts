@@ -0,0 +1,217 @@
+import type { DeinflectionRule, InflectionRuleSet } from "./deinflect";
+
+// Word classes: v1 = ichidan verb, v5 = godan verb, vs = suru verb,
+// vk = kuru verb, adj-i = i-adjective. "te" and "masu" mark intermediate
+// forms that only further inflections start from.
+
+// Conjugation stems of one verb class, as suffixes replacing its ending
+interface VerbClass {
+  condition: string;
+  dictionary: string;
+  // Stem before ない (mizenkei)
+  negative: string;
+  // Stem before ます (ren'youkei)
+  continuative: string;
+  past: string;
+  te: string;
+  volitional: string;
+  potential: string[];
+  passive: string;
+  causative: string;
+  conditional: string;
+  imperative: string[];
+}
+
+// Godan endings with their a/i/e/o-row kana and past form
+const GODAN_ROWS = [
+  { u: "う", a: "わ", i: "い", e: "え", o: "お", past: "った" },
+  { u: "く", a: "か", i: "き", e: "け", o: "こ", past: "いた" },
+  { u: "ぐ", a: "が", i: "ぎ", e: "げ", o: "ご", past: "いだ" },
+  { u: "す", a: "さ", i: "し", e: "せ", o: "そ", past: "した" },
+  { u: "つ", a: "た", i: "ち", e: "て", o: "と", past: "った" },
+  { u: "ぬ", a: "な", i: "に", e: "ね", o: "の", past: "んだ" },
+  { u: "ぶ", a: "ば", i: "び", e: "べ", o: "ぼ", past: "んだ" },
+  { u: "む", a: "ま", i: "み", e: "め", o: "も", past: "んだ" },
+  { u: "る", a: "ら", i: "り", e: "れ", o: "ろ", past: "った" },
+];
+
+function teForm(past: string): string {
+  return past.replace(/た$/, "て").replace(/だ$/, "で");
+}
+
+const VERB_CLASSES: VerbClass[] = [
+  ...GODAN_ROWS.map((row) => ({
+    condition: "v5",
+    dictionary: row.u,
+    negative: row.a,
+    continuative: row.i,
+    past: row.past,
+    te: teForm(row.past),
+    volitional: `${row.o}う`,
+    potential: [`${row.e}る`],
+    passive: `${row.a}れる`,
+    causative: `${row.a}せる`,
+    conditional: `${row.e}ば`,
+    imperative: [row.e],
+  })),
+  // 行く is the one godan verb with an irregular past
+  {
+    condition: "v5",
+    dictionary: "行く",
+    negative: "行か",
+    continuative: "行き",
+    past: "行った",
+    te: "行って",
+    volitional: "行こう",
+    potential: ["行ける"],
+    passive: "行かれる",
+    causative: "行かせる",
+    conditional: "行けば",
+    imperative: ["行け"],
+  },
+  {
+    condition: "v1",
+    dictionary: "る",
+    negative: "",
+    continuative: "",
+    past: "た",
+    te: "て",
+    volitional: "よう",
+    // れる is the colloquial ら抜き potential
+    potential: ["られる", "れる"],
+    passive: "られる",
+    causative: "させる",
+    conditional: "れば",
+    imperative: ["ろ", "よ"],
+  },
+  {
+    condition: "vs",
+    dictionary: "する",
+    negative: "し",
+    continuative: "し",
+    past: "した",
+    te: "して",
+    volitional: "しよう",
+    potential: ["できる"],
+    passive: "される",
+    causative: "させる",
+    conditional: "すれば",
+    imperative: ["しろ", "せよ"],
+  },
+  ...["くる", "来る"].map((dictionary) => {
+    const kanji = dictionary === "来る";
+    return {
+      condition: "vk",
+      dictionary,
+      negative: kanji ? "来" : "こ",
+      continuative: kanji ? "来" : "き",
+      past: kanji ? "来た" : "きた",
+      te: kanji ? "来て" : "きて",
+      volitional: kanji ? "来よう" : "こよう",
+      potential: [kanji ? "来られる" : "こられる"],
+      passive: kanji ? "来られる" : "こられる",
+      causative: kanji ? "来させる" : "こさせる",
+      conditional: kanji ? "来れば" : "くれば",
+      imperative: [kanji ? "来い" : "こい"],
+    };
+  }),
+];
+
+function rule(
+  suffixIn: string,
+  suffixOut: string,
+  conditionsIn: string[],
+  conditionsOut: string[],
+): DeinflectionRule {
+  return { suffixIn, suffixOut, conditionsIn, conditionsOut };
+}
+
+function buildRules(): Record<string, DeinflectionRule[]> {
+  const rules: Record<string, DeinflectionRule[]> = {};
+  const add = (reason: string, ...newRules: DeinflectionRule[]) => {
+    (rules[reason] ??= []).push(...newRules);
+  };
+
+  // Verb conjugations
+  VERB_CLASSES.forEach((verb) => {
+    const out = [verb.condition];
+    const to = (suffixIn: string, conditionsIn: string[] = []) =>
+      rule(suffixIn, verb.dictionary, conditionsIn, out);
+
+    add("negative", to(`${verb.negative}ない`, ["adj-i"]));
+    add(
+      "negative",
+      to(verb.condition === "vs" ? "せず" : `${verb.negative}ず`),
+    );
+    add("polite", to(`${verb.continuative}ます`, ["masu"]));
+    add("past", to(verb.past));
+    add("-te", to(verb.te, ["te"]));
+    add("volitional", to(verb.volitional));
+    verb.potential.forEach((potential) =>
+      add("potential", to(potential, ["v1"])),
+    );
+    add("passive", to(verb.passive, ["v1"]));
+    add("causative", to(verb.causative, ["v1"]));
+    add("-ba", to(verb.conditional));
+    verb.imperative.forEach((imperative) => add("imperative", to(imperative)));
+    add("-tai", to(`${verb.continuative}たい`, ["adj-i"]));
+    add("-tara", to(`${verb.past}ら`));
+    add("-tari", to(`${verb.past}り`));
+    add("-nagara", to(`${verb.continuative}ながら`));
+    add("-sugiru", to(`${verb.continuative}すぎる`, ["v1"]));
+  });
+
+  // Conjugations of ます
+  [
+    { suffix: "ました", reason: "past" },
+    { suffix: "ません", reason: "negative" },
+    { suffix: "ませんでした", reason: "negative past" },
+    { suffix: "ましょう", reason: "volitional" },
+    { suffix: "まして", reason: "-te" },
+  ].forEach(({ suffix, reason }) =>
+    add(reason, rule(suffix, "ます", [], ["masu"])),
+  );
+
+  // Auxiliaries attached to the te-form
+  [
+    { reason: "progressive", suffixes: ["いる", "る"], condition: "v1" },
+    { reason: "-shimau", suffixes: ["しまう"], condition: "v5" },
+    { reason: "-oku", suffixes: ["おく"], condition: "v5" },
+  ].forEach(({ reason, suffixes, condition }) =>
+    suffixes.forEach((suffix) => {
+      add(reason, rule(`て${suffix}`, "て", [condition], ["te"]));
+      add(reason, rule(`で${suffix}`, "で", [condition], ["te"]));
+    }),
+  );
+  // Contractions: 食べちゃう, 読んじゃう, 書いとく
+  add("-shimau", rule("ちゃう", "て", ["v5"], ["te"]));
+  add("-shimau", rule("じゃう", "で", ["v5"], ["te"]));
+  add("-oku", rule("とく", "て", ["v5"], ["te"]));
+  add("-oku", rule("どく", "で", ["v5"], ["te"]));
+  add("request", rule("てください", "て", [], ["te"]));
+  add("request", rule("でください", "で", [], ["te"]));
+
+  // i-adjective conjugations
+  const adjective = (suffixIn: string, conditionsIn: string[] = []) =>
+    rule(suffixIn, "い", conditionsIn, ["adj-i"]);
+  add("adverbial", adjective("く"));
+  add("-te", adjective("くて"));
+  add("past", adjective("かった"));
+  add("negative", adjective("くない", ["adj-i"]));
+  add("negative", adjective("くありません"));
+  add("-ba", adjective("ければ"));
+  add("-tara", adjective("かったら"));
+  add("noun", adjective("さ"));
+  add("-sou", adjective("そう"));
+  add("-sugiru", adjective("すぎる", ["v1"]));
+  add("become", adjective("くなる", ["v5"]));
+
+  return rules;
+}
+
+export const japaneseRules: InflectionRuleSet = {
+  language: "ja",
+  name: "Japanese",
+  dictionaryConditions: ["v1", "v5", "vs", "vk", "adj-i"],
+  rules: buildRules(),
+};
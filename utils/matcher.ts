@@ -0,0 +1,215 @@
+// Multi-pattern matcher (Aho–Corasick) over UTF-16 code units. It is built
+// once in the background and shipped to content scripts in serialized form,
+// then finds every occurrence of every word, overlaps included, in a single
+// pass over the text. The words themselves are not shipped: a match is the
+// text it was found in, and words are known by their index.
+
+export interface SerializedMatcher {
+  version: 2;
+  // Number of words
+  size: number;
+  // Length of each word, by index. Int32Array, base64 encoded
+  lengths: string;
+  // Int32Array buffers, base64 encoded. Transitions are stored CSR style:
+  // the edges of state s are edgeChars/edgeTargets[edgeStart[s]..edgeStart[s + 1]],
+  // sorted by character.
+  edgeStart: string;
+  edgeChars: string;
+  edgeTargets: string;
+  fail: string;
+  // Index of the word ending at each state, -1 if none
+  output: string;
+  // Next state on the failure chain that has an output, 0 if none
+  outputLink: string;
+}
+
+export interface MatcherMatch {
+  index: number;
+  length: number;
+  word: string;
+}
+
+function encodeInt32(values: Int32Array): string {
+  const bytes = new Uint8Array(
+    values.buffer,
+    values.byteOffset,
+    values.byteLength,
+  );
+  let binary = "";
+  // Chunked to stay below the argument limit of String.fromCharCode
+  const CHUNK_SIZE = 0x8000;
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
+  }
+  return btoa(binary);
+}
+
+function decodeInt32(encoded: string): Int32Array {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Int32Array(bytes.buffer);
+}
+
+export function buildMatcher(words: Iterable<string>): SerializedMatcher {
+  const wordList = Array.from(words).filter((word) => word.length > 0);
+
+  // Trie of children maps, state 0 is the root
+  const children: Map<number, number>[] = [new Map()];
+  const output: number[] = [-1];
+  const lengths = new Int32Array(wordList.length);
+  wordList.forEach((word, wordIndex) => {
+    lengths[wordIndex] = word.length;
+    let state = 0;
+    for (let i = 0; i < word.length; i++) {
+      const char = word.charCodeAt(i);
+      let next = children[state].get(char);
+      if (next === undefined) {
+        next = children.length;
+        children.push(new Map());
+        output.push(-1);
+        children[state].set(char, next);
+      }
+      state = next;
+    }
+    output[state] = wordIndex;
+  });
+
+  // Failure and output links, breadth-first
+  const stateCount = children.length;
+  const fail = new Int32Array(stateCount);
+  const outputLink = new Int32Array(stateCount);
+  const queue: number[] = [];
+  children[0].forEach((child) => queue.push(child));
+  for (let head = 0; head < queue.length; head++) {
+    const state = queue[head];
+    children[state].forEach((child, char) => {
+      let fallback = fail[state];
+      while (fallback !== 0 && !children[fallback].has(char)) {
+        fallback = fail[fallback];
+      }
+      const target = children[fallback].get(char);
+      fail[child] = target !== undefined && target !== child ? target : 0;
+      outputLink[child] =
+        output[fail[child]] >= 0 ? fail[child] : outputLink[fail[child]];
+      queue.push(child);
+    });
+  }
+
+  // Flatten transitions
+  const edgeStart = new Int32Array(stateCount + 1);
+  const edgeCount = children.reduce((sum, map) => sum + map.size, 0);
+  const edgeChars = new Int32Array(edgeCount);
+  const edgeTargets = new Int32Array(edgeCount);
+  let edge = 0;
+  children.forEach((map, state) => {
+    edgeStart[state] = edge;
+    Array.from(map.entries())
+      .sort((a, b) => a[0] - b[0])
+      .forEach(([char, target]) => {
+        edgeChars[edge] = char;
+        edgeTargets[edge] = target;
+        edge++;
+      });
+  });
+  edgeStart[stateCount] = edge;
+
+  return {
+    version: 2,
+    size: wordList.length,
+    lengths: encodeInt32(lengths),
+    edgeStart: encodeInt32(edgeStart),
+    edgeChars: encodeInt32(edgeChars),
+    edgeTargets: encodeInt32(edgeTargets),
+    fail: encodeInt32(fail),
+    output: encodeInt32(Int32Array.from(output)),
+    outputLink: encodeInt32(outputLink),
+  };
+}
+
+export class Matcher {
+  readonly size: number;
+  private lengths: Int32Array;
+  private edgeStart: Int32Array;
+  private edgeChars: Int32Array;
+  private edgeTargets: Int32Array;
+  private fail: Int32Array;
+  private output: Int32Array;
+  private outputLink: Int32Array;
+
+  constructor(serialized: SerializedMatcher) {
+    this.size = serialized.size;
+    this.lengths = decodeInt32(serialized.lengths);
+    this.edgeStart = decodeInt32(serialized.edgeStart);
+    this.edgeChars = decodeInt32(serialized.edgeChars);
+    this.edgeTargets = decodeInt32(serialized.edgeTargets);
+    this.fail = decodeInt32(serialized.fail);
+    this.output = decodeInt32(serialized.output);
+    this.outputLink = decodeInt32(serialized.outputLink);
+  }
+
+  // Child of a state for a character, -1 if there is none
+  private transition(state: number, char: number): number {
+    let low = this.edgeStart[state];
+    let high = this.edgeStart[state + 1] - 1;
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      const middleChar = this.edgeChars[middle];
+      if (middleChar === char) return this.edgeTargets[middle];
+      if (middleChar < char) {
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return -1;
+  }
+
+  // State reached by reading text from a state, -1 when no word goes on
+  // that way
+  walk(text: string, state = 0): number {
+    for (let i = 0; i < text.length && state >= 0; i++) {
+      state = this.transition(state, text.charCodeAt(i));
+    }
+    return state;
+  }
+
+  // Index of the word ending at a state, -1 if none
+  wordAt(state: number): number {
+    return state > 0 ? this.output[state] : -1;
+  }
+
+  // Index of a word, -1 when it is not one of the words
+  indexOf(word: string): number {
+    return this.wordAt(this.walk(word));
+  }
+
+  // Every occurrence of every word, in order of end position
+  findAll(text: string): MatcherMatch[] {
+    const matches: MatcherMatch[] = [];
+    let state = 0;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text.charCodeAt(i);
+      let next = this.transition(state, char);
+      while (next < 0 && state !== 0) {
+        state = this.fail[state];
+        next = this.transition(state, char);
+      }
+      state = next < 0 ? 0 : next;
+
+      let outputState =
+        this.output[state] >= 0 ? state : this.outputLink[state];
+      while (outputState > 0) {
+        const length = this.lengths[this.output[outputState]];
+        const index = i - length + 1;
+        matches.push({ index, length, word: text.slice(index, i + 1) });
+        outputState = this.outputLink[outputState];
+      }
+    }
+
+    return matches;
+  }
+}
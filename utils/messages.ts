@@ -0,0 +1,90 @@
+import { Matcher, type SerializedMatcher } from "./matcher";
+import type { WordData } from "./words";
+
+// Messages between content scripts and the background about a profile's
+// words. Tabs get a compact index, without the words themselves, and ask
+// for the data of the words they find, instead of each holding a copy of
+// the whole word list.
+
+// Bump when a request or response changes. A tab left open across an
+// update then fails to load words instead of misreading them.
+export const WORDS_PROTOCOL_VERSION = 3;
+
+export interface WordIndexRequest {
+  action: "getWordIndex";
+  version: typeof WORDS_PROTOCOL_VERSION;
+  profileId: string;
+}
+
+// Enough to find and color a profile's words while the background cannot
+// be reached
+export interface WordIndex {
+  version: typeof WORDS_PROTOCOL_VERSION;
+  matcher: SerializedMatcher;
+  // Rounded level of each matcher word by its index, one byte each, base64
+  // encoded
+  levels: string;
+}
+
+export interface QueryWordsRequest {
+  action: "queryWords";
+  version: typeof WORDS_PROTOCOL_VERSION;
+  profileId: string;
+  // Terms found in the page text, as the matcher returns them
+  terms: string[];
+}
+
+export interface QueryWordsResponse {
+  version: typeof WORDS_PROTOCOL_VERSION;
+  // Only the terms that are words of the profile
+  words: [string, WordData][];
+}
+
+export type WordsRequest = WordIndexRequest | QueryWordsRequest;
+
+interface WordsResponses {
+  getWordIndex: WordIndex;
+  queryWords: QueryWordsResponse;
+}
+
+export type WordsResponse<R extends WordsRequest = WordsRequest> =
+  WordsResponses[R["action"]];
+
+// Send a words request, throwing on errors and responses from another
+// version
+export async function sendWordsRequest<R extends WordsRequest>(
+  request: R,
+): Promise<WordsResponse<R>> {
+  const response = await browser.runtime.sendMessage(request);
+  if (!response) throw new Error("No response from the extension");
+  if (response.error) throw new Error(response.error);
+  if (response.version !== WORDS_PROTOCOL_VERSION) {
+    throw new Error("The extension was updated, reload the page");
+  }
+  return response;
+}
+
+export function buildWordIndex(
+  matcher: SerializedMatcher,
+  words: Map<string, WordData>,
+): WordIndex {
+  const lookup = new Matcher(matcher);
+  const levels = new Uint8Array(matcher.size);
+  words.forEach((data, word) => {
+    const wordIndex = lookup.indexOf(word);
+    if (wordIndex >= 0) levels[wordIndex] = Math.round(data.difficultyLevel);
+  });
+  let binary = "";
+  // Chunked to stay below the argument limit of String.fromCharCode
+  const CHUNK_SIZE = 0x8000;
+  for (let i = 0; i < levels.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...levels.subarray(i, i + CHUNK_SIZE));
+  }
+  return { version: WORDS_PROTOCOL_VERSION, matcher, levels: btoa(binary) };
+}
+
+// Levels of an index by word index, for when the background does not
+// answer queries
+export function indexedLevels(index: WordIndex): Uint8Array {
+  return Uint8Array.from(atob(index.levels), (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,189 @@
+// Text normalization shared by card terms and page text, so both sides of a
+// match are folded the same way
+
+export interface NormalizationSettings {
+  // Unicode normalization form, "none" leaves code points as they are
+  unicode: "none" | "NFC" | "NFKC";
+  // "Haus" matches "haus", "Straße" matches "STRASSE"
+  caseFold: boolean;
+  // "café" matches "cafe". Japanese voicing marks are kept
+  foldDiacritics: boolean;
+  // Full-width Latin and half-width katakana match their usual forms
+  foldWidth: boolean;
+  // Katakana matches hiragana
+  foldKana: boolean;
+  // "words" only matches whole words, found with Intl.Segmenter, for
+  // languages that put spaces between words
+  boundaries: "none" | "words";
+}
+
+// Matches text exactly as written, like before normalization existed
+export const DEFAULT_NORMALIZATION: NormalizationSettings = {
+  unicode: "none",
+  caseFold: false,
+  foldDiacritics: false,
+  foldWidth: false,
+  foldKana: false,
+  boundaries: "none",
+};
+
+// Normalized text with the way back to the original. Character i of text
+// comes from original[starts[i]..ends[i]].
+export interface NormalizedText {
+  text: string;
+  starts: Int32Array;
+  ends: Int32Array;
+}
+
+export interface Normalizer {
+  // Whether any setting changes text, otherwise both methods are no-ops
+  readonly changesText: boolean;
+  term(term: string): string;
+  text(text: string): NormalizedText;
+}
+
+// A base character with the marks that normalization may combine with it.
+// Half-width voicing marks are letters, not marks, so they are listed.
+const SEGMENT =
+  /[^\p{M}\uFF9E\uFF9F][\p{M}\uFF9E\uFF9F]*|[\p{M}\uFF9E\uFF9F]+/gsu;
+// Combining diacritical mark blocks, leaving out the kana voicing marks
+const DIACRITICS =
+  /[\u0300-\u036F\u1AB0-\u1AFF\u1DC0-\u1DFF\u20D0-\u20FF\uFE20-\uFE2F]/g;
+const FULL_WIDTH_ASCII = /[\uFF01-\uFF5E]/g;
+const HALF_WIDTH_KANA = /[\uFF61-\uFF9F]/;
+const KATAKANA = /[\u30A1-\u30F6]/g;
+
+function foldSegment(segment: string, settings: NormalizationSettings): string {
+  let result = segment;
+  if (settings.foldWidth) {
+    result = result.replace(FULL_WIDTH_ASCII, (char) =>
+      String.fromCharCode(char.charCodeAt(0) - 0xfee0),
+    );
+    if (HALF_WIDTH_KANA.test(result)) result = result.normalize("NFKC");
+  }
+  if (settings.unicode !== "none") result = result.normalize(settings.unicode);
+  if (settings.foldDiacritics) {
+    result = result.normalize("NFD").replace(DIACRITICS, "").normalize("NFC");
+  }
+  if (settings.caseFold) {
+    // Full case folding for the letters toLowerCase leaves apart
+    result = result.toLowerCase().replace(/ß/g, "ss").replace(/ς/g, "σ");
+  }
+  if (settings.foldKana) {
+    result = result.replace(KATAKANA, (char) =>
+      String.fromCharCode(char.charCodeAt(0) - 0x60),
+    );
+  }
+  return result;
+}
+
+export function createNormalizer(settings: NormalizationSettings): Normalizer {
+  const changesText =
+    settings.unicode !== "none" ||
+    settings.caseFold ||
+    settings.foldDiacritics ||
+    settings.foldWidth ||
+    settings.foldKana;
+  // Pages and decks use a limited set of characters, so segments repeat
+  const segments = new Map<string, string>();
+  const terms = new Map<string, string>();
+
+  function fold(segment: string): string {
+    let folded = segments.get(segment);
+    if (folded === undefined) {
+      folded = foldSegment(segment, settings);
+      segments.set(segment, folded);
+    }
+    return folded;
+  }
+
+  return {
+    changesText,
+
+    term(term) {
+      if (!changesText) return term;
+      let normalized = terms.get(term);
+      if (normalized === undefined) {
+        normalized = term.replace(SEGMENT, fold);
+        terms.set(term, normalized);
+      }
+      return normalized;
+    },
+
+    text(text) {
+      if (!changesText) {
+        const offsets = Int32Array.from(text, (_char, index) => index);
+        return {
+          text,
+          starts: offsets,
+          ends: offsets.map((offset) => offset + 1),
+        };
+      }
+
+      let normalized = "";
+      const starts: number[] = [];
+      const ends: number[] = [];
+      for (const match of text.matchAll(SEGMENT)) {
+        const folded = fold(match[0]);
+        const start = match.index!;
+        const end = start + match[0].length;
+        if (folded === match[0]) {
+          // Unchanged, each character maps to itself
+          for (let i = start; i < end; i++) {
+            starts.push(i);
+            ends.push(i + 1);
+          }
+        } else {
+          for (let i = 0; i < folded.length; i++) {
+            starts.push(start);
+            ends.push(end);
+          }
+        }
+        normalized += folded;
+      }
+      return {
+        text: normalized,
+        starts: Int32Array.from(starts),
+        ends: Int32Array.from(ends),
+      };
+    },
+  };
+}
+
+// Position and length in the original text of a match in normalized text
+export function originalSpan(
+  normalized: NormalizedText,
+  index: number,
+  length: number,
+): { index: number; length: number } {
+  const start = normalized.starts[index];
+  return { index: start, length: normalized.ends[index + length - 1] - start };
+}
+
+// Offsets in a text where words start or end. Intl.Segmenter knows the
+// rules of each language, older browsers split at letters and digits.
+export function createWordBoundaries(
+  locale?: string,
+): (text: string) => Set<number> {
+  if (typeof Intl.Segmenter === "function") {
+    const segmenter = new Intl.Segmenter(locale || undefined, {
+      granularity: "word",
+    });
+    return (text) => {
+      const boundaries = new Set<number>([text.length]);
+      for (const { index } of segmenter.segment(text)) boundaries.add(index);
+      return boundaries;
+    };
+  }
+
+  const wordChar = /[\p{L}\p{M}\p{N}]/u;
+  return (text) => {
+    const boundaries = new Set<number>([0, text.length]);
+    for (let i = 1; i < text.length; i++) {
+      if (wordChar.test(text[i - 1]) !== wordChar.test(text[i])) {
+        boundaries.add(i);
+      }
+    }
+    return boundaries;
+  };
+}
@@ -0,0 +1,275 @@
+import type { CardStats } from "./words";
+
+export type ScoringStrategy = "legacy" | "fsrs" | "cardState";
+
+export interface FsrsOptions {
+  // Retention the intervals were scheduled for
+  desiredRetention: number;
+  // Stability (days) at which a fully remembered card scores 100
+  matureStability: number;
+}
+
+export interface CardStateOptions {
+  // Interval (days) from which a review card counts as mature
+  matureInterval: number;
+  scores: { new: number; learning: number; young: number; mature: number };
+}
+
+export interface ScoringSettings {
+  strategy: ScoringStrategy;
+  fsrs: FsrsOptions;
+  cardState: CardStateOptions;
+}
+
+// One line of a score breakdown, e.g. { label: "Lapses", value: "-10" }
+export interface ScoreComponent {
+  label: string;
+  value: string;
+}
+
+export interface Scorer {
+  name: string;
+  // Difficulty level from 0 (hard) to 100 (easy)
+  score(stats: CardStats, settings: ScoringSettings, now: number): number;
+  // How the score came about, for display
+  explain(
+    stats: CardStats,
+    settings: ScoringSettings,
+    now: number,
+  ): ScoreComponent[];
+}
+
+export const DEFAULT_SCORING: ScoringSettings = {
+  strategy: "legacy",
+  fsrs: { desiredRetention: 0.9, matureStability: 180 },
+  cardState: {
+    matureInterval: 21,
+    scores: { new: 0, learning: 20, young: 60, mature: 100 },
+  },
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// FSRS forgetting curve: R(t) = (1 + FACTOR * t / S) ^ DECAY
+const FSRS_DECAY = -0.5;
+const FSRS_FACTOR = 19 / 81;
+
+function clampScore(score: number): number {
+  return Math.max(0, Math.min(100, score));
+}
+
+// The parts of the legacy score, summed and clamped by the scorer
+function legacyComponents(stats: CardStats) {
+  // Higher interval = easier (better known)
+  // More lapses = harder
+  const interval = stats.interval || 0;
+  const lapses = stats.lapses || 0;
+  const reps = stats.reps || 0;
+
+  // Base score from interval (most important factor)
+  // 1 day = 10 points, 21 days (3 weeks) = 50 points, 90 days (3 months) = 75 points, 180+ days = 90+ points
+  let intervalScore = 0;
+  if (interval >= 180) {
+    intervalScore = 90 + Math.min((interval - 180) / 365, 1) * 10; // 90-100 for 6+ months
+  } else if (interval >= 90) {
+    intervalScore = 75 + ((interval - 90) / 90) * 15; // 75-90 for 3-6 months
+  } else if (interval >= 21) {
+    intervalScore = 50 + ((interval - 21) / 69) * 25; // 50-75 for 3 weeks to 3 months
+  } else if (interval >= 7) {
+    intervalScore = 30 + ((interval - 7) / 14) * 20; // 30-50 for 1-3 weeks
+  } else if (interval >= 1) {
+    intervalScore = 10 + ((interval - 1) / 6) * 20; // 10-30 for 1-7 days
+  } else {
+    intervalScore = 0; // New card
+  }
+
+  // Lapses penalty: small penalty for mistakes (not too harsh)
+  // 0 lapses = 0 penalty, 1-2 lapses = -5 to -10, 3+ lapses = -15+
+  const lapsesScore = -Math.min(lapses * 5, 25);
+
+  // Bonus for cards with any reviews (you've seen it at least)
+  const repsBonus = reps > 0 ? Math.min(reps * 2, 10) : 0;
+
+  return { intervalScore, lapsesScore, repsBonus };
+}
+
+function signed(value: number): string {
+  const rounded = Math.round(value);
+  return rounded > 0 ? `+${rounded}` : `${rounded}`;
+}
+
+const legacyScorer: Scorer = {
+  name: "Interval curve (legacy)",
+  score(stats) {
+    const { intervalScore, lapsesScore, repsBonus } = legacyComponents(stats);
+    return clampScore(intervalScore + lapsesScore + repsBonus);
+  },
+  explain(stats) {
+    const { intervalScore, lapsesScore, repsBonus } = legacyComponents(stats);
+    return [
+      { label: "Interval", value: signed(intervalScore) },
+      { label: "Lapses", value: signed(lapsesScore) },
+      { label: "Reviews", value: signed(repsBonus) },
+    ];
+  },
+};
+
+// Stability that makes an interval land exactly on the desired retention
+export function stabilityFromInterval(
+  intervalDays: number,
+  desiredRetention: number,
+): number {
+  return (
+    (intervalDays * FSRS_FACTOR) /
+    (Math.pow(desiredRetention, 1 / FSRS_DECAY) - 1)
+  );
+}
+
+// One entry of a card's review log, as AnkiConnect and .apkg files store it
+export interface ReviewLogEntry {
+  // Review timestamp in ms
+  id: number;
+  // Answer button, 0 for manual rescheduling
+  ease: number;
+  // Resulting interval: days if positive, seconds if negative
+  ivl: number;
+}
+
+// The interval scheduled at the last graded review approximates the
+// stability it was given for the desired retention
+export function lastReviewStats(
+  reviews: ReviewLogEntry[] | undefined,
+  desiredRetention: number,
+): { lastReview: number; stability: number } | null {
+  const lastReview = reviews?.filter((review) => review.ease > 0).pop();
+  if (!lastReview) return null;
+
+  const intervalDays =
+    lastReview.ivl > 0 ? lastReview.ivl : -lastReview.ivl / 86400;
+  return {
+    lastReview: lastReview.id,
+    stability: stabilityFromInterval(intervalDays, desiredRetention),
+  };
+}
+
+export function retrievability(elapsedDays: number, stability: number): number {
+  if (stability <= 0) return 0;
+  return Math.pow(1 + (FSRS_FACTOR * elapsedDays) / stability, FSRS_DECAY);
+}
+
+function fsrsComponents(
+  stats: CardStats,
+  settings: ScoringSettings,
+  now: number,
+) {
+  const { desiredRetention, matureStability } = settings.fsrs;
+
+  // Prefer the stability from the review log, fall back to the interval
+  const stability =
+    stats.stability ??
+    stabilityFromInterval(Math.max(stats.interval, 0), desiredRetention);
+  const elapsedDays = stats.lastReview
+    ? Math.max(0, (now - stats.lastReview) / DAY)
+    : 0;
+
+  // Retrievability says how likely the word is remembered right now,
+  // stability says how firmly; a fresh card at R = 0.9 is not mastered
+  const recall = retrievability(elapsedDays, stability);
+  const maturity = Math.min(
+    1,
+    Math.log1p(stability) / Math.log1p(matureStability),
+  );
+  return { stability, elapsedDays, recall, maturity };
+}
+
+const fsrsScorer: Scorer = {
+  name: "FSRS retrievability",
+  score(stats, settings, now) {
+    if (stats.type === 0 || !stats.lastReview) return 0;
+    const { recall, maturity } = fsrsComponents(stats, settings, now);
+    return clampScore(100 * recall * maturity);
+  },
+  explain(stats, settings, now) {
+    if (stats.type === 0 || !stats.lastReview) {
+      return [{ label: "State", value: "new" }];
+    }
+    const { stability, elapsedDays, recall, maturity } = fsrsComponents(
+      stats,
+      settings,
+      now,
+    );
+    return [
+      { label: "Stability", value: `${stability.toFixed(1)} d` },
+      { label: "Since review", value: `${elapsedDays.toFixed(1)} d` },
+      { label: "Retrievability", value: `${Math.round(recall * 100)}%` },
+      { label: "Maturity", value: `${Math.round(maturity * 100)}%` },
+    ];
+  },
+};
+
+export type CardState = "new" | "learning" | "young" | "mature";
+
+export function cardState(stats: CardStats, matureInterval = 21): CardState {
+  if (stats.type === 0) return "new";
+  if (stats.type === 1 || stats.type === 3) return "learning";
+  return stats.interval >= matureInterval ? "mature" : "young";
+}
+
+// Whether a card waits for review by its stored due date. Suspended,
+// buried and new cards never do
+export function isCardDue(stats: CardStats | undefined, now: number): boolean {
+  return (
+    !!stats &&
+    stats.queue >= 1 &&
+    stats.queue <= 3 &&
+    stats.due !== undefined &&
+    stats.due <= now
+  );
+}
+
+// Whole days a due card is past its due date
+export function overdueDays(stats: CardStats, now: number): number {
+  return stats.due === undefined
+    ? 0
+    : Math.max(0, Math.floor((now - stats.due) / DAY));
+}
+
+const cardStateScorer: Scorer = {
+  name: "Card state",
+  score(stats, settings) {
+    const { matureInterval, scores } = settings.cardState;
+    return clampScore(scores[cardState(stats, matureInterval)]);
+  },
+  explain(stats, settings) {
+    return [
+      {
+        label: "State",
+        value: cardState(stats, settings.cardState.matureInterval),
+      },
+    ];
+  },
+};
+
+export const SCORERS: Record<ScoringStrategy, Scorer> = {
+  legacy: legacyScorer,
+  fsrs: fsrsScorer,
+  cardState: cardStateScorer,
+};
+
+export function scoreCard(
+  stats: CardStats,
+  settings: ScoringSettings = DEFAULT_SCORING,
+  now: number = Date.now(),
+): number {
+  const scorer = SCORERS[settings.strategy] ?? legacyScorer;
+  return scorer.score(stats, settings, now);
+}
+
+export function explainScore(
+  stats: CardStats,
+  settings: ScoringSettings = DEFAULT_SCORING,
+  now: number = Date.now(),
+): ScoreComponent[] {
+  const scorer = SCORERS[settings.strategy] ?? legacyScorer;
+  return scorer.explain(stats, settings, now);
+}
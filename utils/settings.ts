@@ -0,0 +1,382 @@
+import type { FieldMapping } from "./fields";
+import { DEFAULT_NORMALIZATION, type NormalizationSettings } from "./normalize";
+import { DEFAULT_SCORING, type ScoringSettings } from "./scoring";
+import {
+  DEFAULT_DISPLAY,
+  normalizeBuckets,
+  type DisplaySettings,
+} from "./styles";
+
+export interface WordSource {
+  // Any Anki search query, e.g. deck:Mining note:"Lapis" -is:suspended
+  query: string;
+  // Field mapping keyed by note type (model) name
+  fieldMappings: Record<string, FieldMapping>;
+}
+
+export interface ProfileColors {
+  hard: string;
+  easy: string;
+}
+
+// What a mined note field is filled with
+export type MiningValue = "" | "word" | "sentence" | "title" | "url";
+
+export interface MiningSettings {
+  deckName: string;
+  modelName: string;
+  // Note field name -> value
+  fields: Record<string, MiningValue>;
+  tags: string[];
+}
+
+export interface Profile {
+  id: string;
+  name: string;
+  sources: WordSource[];
+  // Page languages (html lang attribute) that select this profile, e.g. "ja"
+  languages: string[];
+  // Domains that select this profile, subdomains included
+  domains: string[];
+  colors: ProfileColors;
+  // Palette, buckets and highlight styles
+  display: DisplaySettings;
+  scoring: ScoringSettings;
+  // Inflection rule set (language code) used to match conjugated forms,
+  // empty for exact matching only
+  inflectionRules: string;
+  // How card terms and page text are folded before matching
+  normalization: NormalizationSettings;
+  // Where notes created from selected text go
+  mining: MiningSettings;
+}
+
+export const DEFAULT_PROFILE_ID = "default";
+
+export const DEFAULT_MINING: MiningSettings = {
+  deckName: "",
+  modelName: "",
+  fields: {},
+  tags: ["anki-levels"],
+};
+
+export const DEFAULT_COLORS: ProfileColors = {
+  hard: "#ff0000",
+  easy: "#00ff00",
+};
+
+export function createProfile(
+  name: string,
+  sources: WordSource[] = [],
+): Profile {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    sources,
+    languages: [],
+    domains: [],
+    colors: { ...DEFAULT_COLORS },
+    display: structuredClone(DEFAULT_DISPLAY),
+    scoring: structuredClone(DEFAULT_SCORING),
+    inflectionRules: "ja",
+    normalization: { ...DEFAULT_NORMALIZATION },
+    mining: structuredClone(DEFAULT_MINING),
+  };
+}
+
+// Fill in settings added after a profile was saved
+function normalizeProfile(profile: Profile): Profile {
+  const scoring = profile.scoring ?? DEFAULT_SCORING;
+  return {
+    ...profile,
+    inflectionRules: profile.inflectionRules ?? "ja",
+    normalization: { ...DEFAULT_NORMALIZATION, ...profile.normalization },
+    mining: { ...DEFAULT_MINING, ...profile.mining },
+    display: {
+      ...DEFAULT_DISPLAY,
+      ...profile.display,
+      buckets: normalizeBuckets(
+        profile.display?.buckets ?? DEFAULT_DISPLAY.buckets,
+      ),
+    },
+    scoring: {
+      strategy: scoring.strategy ?? DEFAULT_SCORING.strategy,
+      fsrs: { ...DEFAULT_SCORING.fsrs, ...scoring.fsrs },
+      cardState: {
+        ...DEFAULT_SCORING.cardState,
+        ...scoring.cardState,
+        scores: {
+          ...DEFAULT_SCORING.cardState.scores,
+          ...scoring.cardState?.scores,
+        },
+      },
+    },
+  };
+}
+
+export async function getProfiles(): Promise<Profile[]> {
+  const storage = await browser.storage.local.get([
+    "profiles",
+    "sources",
+    "deckName",
+  ]);
+  if (Array.isArray(storage.profiles)) {
+    return (storage.profiles as Profile[]).map(normalizeProfile);
+  }
+
+  // Migrate the old single deck / source list into a default profile
+  let sources: WordSource[] = [];
+  if (Array.isArray(storage.sources)) {
+    sources = storage.sources;
+  } else if (storage.deckName) {
+    sources = [{ query: `deck:"${storage.deckName}"`, fieldMappings: {} }];
+  }
+  return [{ ...createProfile("Default", sources), id: DEFAULT_PROFILE_ID }];
+}
+
+export async function saveProfiles(profiles: Profile[]): Promise<void> {
+  await browser.storage.local.set({ profiles });
+  await browser.storage.local.remove(["sources", "deckName"]);
+}
+
+// Manual profile choices, keyed by hostname
+export async function getSiteProfiles(): Promise<Record<string, string>> {
+  const storage = await browser.storage.local.get("siteProfiles");
+  return storage.siteProfiles ?? {};
+}
+
+export async function setSiteProfile(
+  hostname: string,
+  profileId: string | null,
+): Promise<void> {
+  const siteProfiles = await getSiteProfiles();
+  if (profileId) {
+    siteProfiles[hostname] = profileId;
+  } else {
+    delete siteProfiles[hostname];
+  }
+  await browser.storage.local.set({ siteProfiles });
+}
+
+// Where highlighting runs. Patterns are hostnames (subdomains included) or
+// host/path prefixes, with * as a wildcard, e.g. *.bank.com or github.com/*/blob
+export interface SiteFilter {
+  // When not empty, only matching sites are highlighted
+  allowList: string[];
+  blockList: string[];
+  // Per-site switch from the popup, keyed by hostname. Overrides the lists
+  sites: Record<string, boolean>;
+}
+
+// Editors and apps that the injected highlights break
+export const DEFAULT_SITE_FILTER: SiteFilter = {
+  allowList: [],
+  blockList: [
+    "docs.google.com",
+    "vscode.dev",
+    "github.dev",
+    "codesandbox.io",
+    "stackblitz.com",
+  ],
+  sites: {},
+};
+
+export async function getSiteFilter(): Promise<SiteFilter> {
+  const storage = await browser.storage.local.get("siteFilter");
+  return { ...DEFAULT_SITE_FILTER, ...storage.siteFilter };
+}
+
+export async function saveSiteFilter(siteFilter: SiteFilter): Promise<void> {
+  await browser.storage.local.set({ siteFilter });
+}
+
+export async function setSiteEnabled(
+  hostname: string,
+  enabled: boolean | null,
+): Promise<void> {
+  const siteFilter = await getSiteFilter();
+  const sites = { ...siteFilter.sites };
+  if (enabled === null) {
+    delete sites[hostname];
+  } else {
+    sites[hostname] = enabled;
+  }
+  await saveSiteFilter({ ...siteFilter, sites });
+}
+
+// Entries of a list setting typed as text, e.g. languages or site patterns,
+// separated by commas or lines
+export function parseList(value: string): string[] {
+  return value
+    .split(/[,\n]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}`);
+}
+
+export function matchesSitePattern(
+  page: { hostname: string; pathname: string },
+  pattern: string,
+): boolean {
+  const normalized = pattern
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, "");
+  if (!normalized) return false;
+  const hostname = page.hostname.toLowerCase();
+
+  const slash = normalized.indexOf("/");
+  if (slash >= 0) {
+    return patternToRegExp(normalized).test(hostname + page.pathname);
+  }
+  if (normalized.includes("*")) {
+    return new RegExp(`${patternToRegExp(normalized).source}$`).test(hostname);
+  }
+  return matchesDomain(hostname, normalized);
+}
+
+// Whether a page is highlighted: the per-site switch, then the block list,
+// then the allow list
+export function isSiteEnabled(
+  siteFilter: SiteFilter,
+  page: { hostname: string; pathname: string },
+): boolean {
+  const override = siteFilter.sites[page.hostname.toLowerCase()];
+  if (override !== undefined) return override;
+  if (
+    siteFilter.blockList.some((pattern) => matchesSitePattern(page, pattern))
+  ) {
+    return false;
+  }
+  return (
+    siteFilter.allowList.length === 0 ||
+    siteFilter.allowList.some((pattern) => matchesSitePattern(page, pattern))
+  );
+}
+
+export interface AnkiConnectSettings {
+  url: string;
+  // API key, when AnkiConnect is configured to require one
+  key: string;
+}
+
+export const DEFAULT_ANKI_CONNECT: AnkiConnectSettings = {
+  url: "http://localhost:8765",
+  key: "",
+};
+
+export async function getAnkiConnectSettings(): Promise<AnkiConnectSettings> {
+  const storage = await browser.storage.local.get("ankiConnect");
+  return { ...DEFAULT_ANKI_CONNECT, ...storage.ankiConnect };
+}
+
+export async function saveAnkiConnectSettings(
+  ankiConnect: AnkiConnectSettings,
+): Promise<void> {
+  await browser.storage.local.set({ ankiConnect });
+}
+
+export interface SyncSettings {
+  // Minutes between scheduled syncs
+  interval: number;
+  // After Anki could not be reached, check every minute and sync once it is
+  // back
+  retryWhenReachable: boolean;
+}
+
+export const SYNC_INTERVALS: Record<number, string> = {
+  15: "15 minutes",
+  30: "30 minutes",
+  60: "Hour",
+  180: "3 hours",
+  360: "6 hours",
+  720: "12 hours",
+  1440: "24 hours",
+};
+
+export const DEFAULT_SYNC: SyncSettings = {
+  interval: 1440,
+  retryWhenReachable: true,
+};
+
+// Scheduled syncs as the popup shows them
+export interface SyncStatus {
+  lastSync?: number;
+  nextSync?: number;
+  // Another sync holds the lock
+  syncing: boolean;
+  // Anki could not be reached, a sync follows once it can
+  waitingForAnki: boolean;
+}
+
+export async function getSyncSettings(): Promise<SyncSettings> {
+  const storage = await browser.storage.local.get("sync");
+  return { ...DEFAULT_SYNC, ...storage.sync };
+}
+
+export async function saveSyncSettings(sync: SyncSettings): Promise<void> {
+  await browser.storage.local.set({ sync });
+}
+
+// How highlights are drawn: "spans" wraps matched words in elements, "ranges"
+// paints them with the CSS Custom Highlight API and leaves the page's DOM
+// untouched
+export type HighlighterType = "spans" | "ranges";
+
+export async function getHighlighter(): Promise<HighlighterType> {
+  const storage = await browser.storage.local.get("highlighter");
+  return storage.highlighter ?? "spans";
+}
+
+export async function saveHighlighter(
+  highlighter: HighlighterType,
+): Promise<void> {
+  await browser.storage.local.set({ highlighter });
+}
+
+function matchesDomain(hostname: string, domain: string): boolean {
+  const normalized = domain.trim().toLowerCase();
+  return hostname === normalized || hostname.endsWith(`.${normalized}`);
+}
+
+function matchesLanguage(lang: string, language: string): boolean {
+  const normalized = language.trim().toLowerCase();
+  return lang === normalized || lang.startsWith(`${normalized}-`);
+}
+
+// Pick the profile for a page: manual choice, then domain, then lang attribute,
+// then the first profile
+export function resolveProfile(
+  profiles: Profile[],
+  siteProfiles: Record<string, string>,
+  page: { hostname: string; lang: string },
+): Profile | null {
+  const hostname = page.hostname.toLowerCase();
+  const lang = page.lang.toLowerCase();
+
+  const manual = profiles.find(
+    (profile) => profile.id === siteProfiles[hostname],
+  );
+  if (manual) return manual;
+
+  const byDomain = profiles.find((profile) =>
+    profile.domains.some((domain) => matchesDomain(hostname, domain)),
+  );
+  if (byDomain) return byDomain;
+
+  if (lang) {
+    const byLanguage = profiles.find((profile) =>
+      profile.languages.some((language) => matchesLanguage(lang, language)),
+    );
+    if (byLanguage) return byLanguage;
+  }
+
+  return profiles[0] ?? null;
+}
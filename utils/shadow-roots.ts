@@ -0,0 +1,16 @@
+// Event the page world hook dispatches on the host of a new open shadow root
+export const SHADOW_ROOT_EVENT = "anki-levels:shadow-root";
+
+// Open shadow roots under a node, nested ones included
+export function findShadowRoots(root: Node): ShadowRoot[] {
+  const roots: ShadowRoot[] = [];
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT);
+  let element = walker.currentNode as Element;
+  while (element) {
+    if (element.shadowRoot) {
+      roots.push(element.shadowRoot, ...findShadowRoots(element.shadowRoot));
+    }
+    element = walker.nextNode() as Element;
+  }
+  return roots;
+}
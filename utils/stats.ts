@@ -0,0 +1,42 @@
+export interface PageWordStat {
+  term: string;
+  reading?: string;
+  difficultyLevel: number;
+  // Occurrences on the page
+  count: number;
+}
+
+export interface PageStats {
+  url: string;
+  // Profile the page was highlighted with
+  profileId: string;
+  // Letters and digits in the page text
+  totalChars: number;
+  // Occurrences of deck words, overlapping ones included
+  matchedTokens: number;
+  uniqueWords: number;
+  // Unique words per difficulty bucket, see STAT_BUCKETS
+  buckets: number[];
+  // Share of the text covered by deck words (0-100)
+  coverage: number;
+  // Covered text weighted by how well each word is known (0-100)
+  comprehension: number;
+  words: PageWordStat[];
+}
+
+export const STAT_BUCKETS = [
+  { label: "0–20", max: 20 },
+  { label: "20–40", max: 40 },
+  { label: "40–60", max: 60 },
+  { label: "60–80", max: 80 },
+  { label: "80–100", max: Infinity },
+];
+
+export function statBucket(difficultyLevel: number): number {
+  return STAT_BUCKETS.findIndex(({ max }) => difficultyLevel < max);
+}
+
+// Characters that count towards the page length
+export function countTextChars(text: string): number {
+  return text.match(/[\p{L}\p{N}]/gu)?.length ?? 0;
+}
@@ -0,0 +1,236 @@
+import type { ProfileColors } from "./settings";
+
+export interface Palette {
+  name: string;
+  // Colors from hard to easy, interpolated in between
+  stops: string[];
+  // Made to stand out on dark pages
+  dark?: boolean;
+}
+
+// "profile" uses the profile's own hard and easy colors
+export const PALETTES: Record<string, Palette> = {
+  profile: { name: "Profile colors", stops: [] },
+  viridis: {
+    name: "Viridis (colorblind safe)",
+    stops: ["#440154", "#3b528b", "#21918c", "#5ec962", "#fde725"],
+  },
+  cividis: {
+    name: "Cividis (colorblind safe)",
+    stops: ["#00204d", "#414d6b", "#7c7b78", "#bcaf6f", "#ffea46"],
+  },
+  orangeBlue: {
+    name: "Orange to blue (colorblind safe)",
+    stops: ["#d55e00", "#e69f00", "#999999", "#56b4e9", "#0072b2"],
+  },
+  redGreenDark: {
+    name: "Red to green, dark pages",
+    stops: ["#ff6b6b", "#ffb86b", "#ffe66b", "#b5f06b", "#6bf08f"],
+    dark: true,
+  },
+  viridisDark: {
+    name: "Viridis, dark pages (colorblind safe)",
+    stops: ["#b57bff", "#6f9bff", "#35c7b8", "#8fe36a", "#fde725"],
+    dark: true,
+  },
+  orangeBlueDark: {
+    name: "Orange to blue, dark pages (colorblind safe)",
+    stops: ["#ff8c42", "#ffc14d", "#cccccc", "#7fd0ff", "#4da6ff"],
+    dark: true,
+  },
+};
+
+// How a highlighted word is drawn
+export type HighlightStyle = "both" | "background" | "underline" | "none";
+
+export const HIGHLIGHT_STYLES: Record<HighlightStyle, string> = {
+  both: "Background and underline",
+  background: "Background",
+  underline: "Underline",
+  none: "Not highlighted",
+};
+
+export interface LevelBucket {
+  // Highest level in the bucket, buckets are sorted by it and the last one
+  // ends at 100
+  upTo: number;
+  style: HighlightStyle;
+}
+
+export interface DisplaySettings {
+  // Palette id, see PALETTES
+  palette: string;
+  // Palette for pages with a dark background, empty for the same
+  darkPalette: string;
+  // "gradient" blends the palette over the levels, "buckets" gives each
+  // bucket a single color
+  scale: "gradient" | "buckets";
+  buckets: LevelBucket[];
+  // 0-1
+  backgroundOpacity: number;
+  // px
+  underlineThickness: number;
+  // Words above this level are not highlighted at all, 100 shows every word
+  hideAbove: number;
+  // Overline due cards in their own color, on top of the level colors
+  markDue: boolean;
+  dueColor: string;
+  // Keyboard navigation only stops at words up to this level, 100 stops at
+  // every highlighted word
+  navigateUpTo: number;
+  // Focus mode keeps words up to this level highlighted and dims the rest
+  focusUpTo: number;
+}
+
+export const DEFAULT_DISPLAY: DisplaySettings = {
+  palette: "profile",
+  darkPalette: "",
+  scale: "gradient",
+  buckets: [20, 40, 60, 80, 100].map((upTo) => ({ upTo, style: "both" })),
+  backgroundOpacity: 0.2,
+  underlineThickness: 1.5,
+  hideAbove: 100,
+  markDue: false,
+  dueColor: "#1e88e5",
+  navigateUpTo: 100,
+  focusUpTo: 40,
+};
+
+// How one level is drawn, null when it is not highlighted
+export interface LevelStyle {
+  color: string;
+  // Which color of the scale this is: the bucket, or the gradient step.
+  // Levels of the same step are drawn alike
+  step: number;
+  // Background color with the configured opacity
+  background: string | null;
+  underline: string | null;
+  underlineThickness: number;
+  // Color of the due card marker
+  dueMarker: string | null;
+}
+
+// Colors along the gradient, levels are rounded to the nearest step so
+// highlighters can share one style per step
+export const GRADIENT_STEPS = 20;
+
+export type Styler = (level: number, due?: boolean) => LevelStyle | null;
+
+function parseHexColor(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+function toHex(channels: number[]): string {
+  return (
+    "#" +
+    channels
+      .map((channel) => Math.round(channel).toString(16).padStart(2, "0"))
+      .join("")
+  );
+}
+
+// Color at t (0 = hard, 1 = easy) along a palette's stops
+function interpolateStops(stops: string[], t: number): string {
+  const position = Math.max(0, Math.min(1, t)) * (stops.length - 1);
+  const index = Math.min(Math.floor(position), stops.length - 2);
+  const from = parseHexColor(stops[index]);
+  const to = parseHexColor(stops[index + 1]);
+  const local = position - index;
+  return toHex(from.map((channel, i) => channel + (to[i] - channel) * local));
+}
+
+function paletteStops(paletteId: string, colors: ProfileColors): string[] {
+  const palette = PALETTES[paletteId];
+  return palette && palette.stops.length > 0
+    ? palette.stops
+    : [colors.hard, colors.easy];
+}
+
+// Color at t (0 = hard, 1 = easy) of a palette, e.g. for charts
+export function paletteColor(
+  paletteId: string,
+  colors: ProfileColors,
+  t: number,
+): string {
+  return interpolateStops(paletteStops(paletteId, colors), t);
+}
+
+// Index of the bucket a level falls in
+export function levelBucket(level: number, buckets: LevelBucket[]): number {
+  const index = buckets.findIndex(({ upTo }) => level <= upTo);
+  return index === -1 ? buckets.length - 1 : index;
+}
+
+// Sorted buckets ending at 100, whatever was typed in
+export function normalizeBuckets(buckets: LevelBucket[]): LevelBucket[] {
+  const sorted = buckets
+    .filter(({ upTo }) => Number.isFinite(upTo))
+    .map(({ upTo, style }) => ({
+      upTo: Math.max(0, Math.min(100, Math.round(upTo))),
+      style,
+    }))
+    .sort((a, b) => a.upTo - b.upTo)
+    .filter((bucket, index, all) => all[index - 1]?.upTo !== bucket.upTo);
+  if (sorted.length === 0 || sorted[sorted.length - 1].upTo < 100) {
+    sorted.push({ upTo: 100, style: sorted.at(-1)?.style ?? "both" });
+  }
+  return sorted;
+}
+
+export function createStyler(
+  colors: ProfileColors,
+  display: DisplaySettings,
+  dark = false,
+): Styler {
+  const stops = paletteStops(
+    dark && display.darkPalette ? display.darkPalette : display.palette,
+    colors,
+  );
+  const alpha = Math.round(
+    Math.max(0, Math.min(1, display.backgroundOpacity)) * 255,
+  )
+    .toString(16)
+    .padStart(2, "0");
+
+  return (level, due = false) => {
+    if (level > display.hideAbove) return null;
+    const index = levelBucket(level, display.buckets);
+    const bucket = display.buckets[index];
+    const style = bucket?.style ?? "both";
+    if (style === "none") return null;
+
+    let step = Math.round((level / 100) * GRADIENT_STEPS);
+    let t = step / GRADIENT_STEPS;
+    if (display.scale === "buckets" && bucket) {
+      // Middle of the bucket, so neighbouring buckets stay apart
+      const from = index > 0 ? display.buckets[index - 1].upTo : 0;
+      step = index;
+      t = (from + bucket.upTo) / 200;
+    }
+    const color = interpolateStops(stops, t);
+    return {
+      color,
+      step,
+      background: style === "underline" ? null : `${color}${alpha}`,
+      underline: style === "background" ? null : color,
+      underlineThickness: display.underlineThickness,
+      dueMarker: due && display.markDue ? display.dueColor : null,
+    };
+  };
+}
+
+// Whether the page shows dark backgrounds, judged by the first opaque
+// background up from the body
+export function isDarkPage(): boolean {
+  for (const element of [document.body, document.documentElement]) {
+    if (!element) continue;
+    const match = getComputedStyle(element).backgroundColor.match(
+      /rgba?\(([\d.]+),\s*([\d.]+),\s*([\d.]+)(?:,\s*([\d.]+))?/,
+    );
+    if (!match || match[4] === "0") continue;
+    const [r, g, b] = match.slice(1, 4).map(Number);
+    return 0.299 * r + 0.587 * g + 0.114 * b < 128;
+  }
+  return false;
+}
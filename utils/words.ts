@@ -0,0 +1,52 @@
+// Card statistics kept alongside each word so scores can be recomputed
+// locally without asking Anki again
+export interface CardStats {
+  interval: number;
+  // Ease factor in permille, e.g. 2500 for 250%
+  factor: number;
+  reps: number;
+  lapses: number;
+  // 0 = new, 1 = learning, 2 = review, 3 = relearning
+  type: number;
+  // -1 = suspended, -2/-3 = buried, otherwise matches the type
+  queue: number;
+  // Estimated due date (ms), unknown for new cards
+  due?: number;
+  // Timestamp (ms) of the last graded review, from the review log
+  lastReview?: number;
+  // Estimated memory stability in days
+  stability?: number;
+}
+
+// Stats of a card that was never studied
+export const NEW_CARD_STATS: CardStats = {
+  interval: 0,
+  factor: 0,
+  reps: 0,
+  lapses: 0,
+  type: 0,
+  queue: 0,
+};
+
+export interface WordData {
+  difficultyLevel: number;
+  reading?: string;
+  meaning?: string;
+  // Card the word's data was read from
+  cardId?: number;
+  // Term as written on the card, when pages get it under its normalized form
+  term?: string;
+  stats?: CardStats;
+}
+
+// A word found in page text
+export interface WordMatch {
+  index: number;
+  length: number;
+  data: WordData;
+  // Text as it appears on the page
+  word: string;
+  // Dictionary form, when the page text is an inflected form of it
+  lemma?: string;
+  reasons?: string[];
+}
@@ -6,6 +6,32 @@ export default defineConfig({
     name: "Anki Levels",
     description:
       "Highlight words on web pages based on your Anki card difficulty levels",
-    permissions: ["storage", "tabs"],
+    permissions: ["storage", "tabs", "contextMenus", "alarms"],
+    commands: {
+      "mine-selection": {
+        suggested_key: { default: "Alt+Shift+A" },
+        description: "Add the selected word to Anki",
+      },
+      "toggle-highlighting": {
+        suggested_key: { default: "Alt+Shift+H" },
+        description: "Turn highlighting on or off in the current tab",
+      },
+      // Browsers suggest a few shortcuts per extension, the others are set
+      // on the browser's shortcuts page
+      "next-word": {
+        suggested_key: { default: "Alt+Shift+Period" },
+        description: "Jump to the next highlighted word",
+      },
+      "previous-word": {
+        suggested_key: { default: "Alt+Shift+Comma" },
+        description: "Jump to the previous highlighted word",
+      },
+      "show-word-details": {
+        description: "Show the details of the focused word",
+      },
+      "toggle-focus-mode": {
+        description: "Dim everything but the hardest words",
+      },
+    },
   },
 });